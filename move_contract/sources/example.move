@@ -3,6 +3,9 @@ module your_address::autofinal {
     use supra_framework::supra_coin::SupraCoin;
     use supra_framework::event;
     use supra_framework::timestamp;
+    use aptos_std::table::{Self, Table};
+    use aptos_std::type_info;
+    use std::string::String;
     use std::signer;
     use std::error;
 
@@ -14,9 +17,21 @@ module your_address::autofinal {
         initialized: bool,
     }
 
+    struct TransferSchedule has store, drop {
+        recipient: address,
+        payments_made: u64,
+        last_payment_time: u64,
+    }
+
+    /// Progress of every scheduled transfer a deployer runs, keyed by the schedule id the agent picks.
+    struct TransferSchedules has key {
+        schedules: Table<u64, TransferSchedule>,
+    }
+
     const E_NOT_INITIALIZED: u64 = 1;
     const E_ALREADY_INITIALIZED: u64 = 2;
     const E_INSUFFICIENT_BALANCE: u64 = 3;
+    const E_INVALID_PARAMETERS: u64 = 4;
 
     #[event]
     struct AutoTopUpEvent has drop, store {
@@ -32,11 +47,34 @@ module your_address::autofinal {
     struct AutomationExecutedEvent has drop, store {
         deployer: address,
         target: address,
+        coin_type: String,
         action_taken: vector<u8>,
         target_balance: u64,
         execution_count: u64,
         timestamp: u64,
     }
+    #[event]
+    struct ScheduledTransferEvent has drop, store {
+        deployer: address,
+        recipient: address,
+        schedule_id: u64,
+        coin_type: String,
+        action_taken: vector<u8>,
+        amount: u64,
+        payments_made: u64,
+        recipient_balance: u64,
+        timestamp: u64,
+    }
+    #[event]
+    struct ExcessSweptEvent has drop, store {
+        source: address,
+        treasury: address,
+        coin_type: String,
+        action_taken: vector<u8>,
+        amount: u64,
+        source_balance: u64,
+        timestamp: u64,
+    }
     fun init_module(account: &signer) {
         let account_addr = signer::address_of(account);
                 assert!(!exists<TopUpManager>(account_addr), error::already_exists(E_ALREADY_INITIALIZED));
@@ -52,6 +90,40 @@ module your_address::autofinal {
     public entry fun auto_topup_with_state(
         deployer: &signer,
         target: address,
+    ) acquires TopUpManager {
+        let deployer_address = signer::address_of(deployer);
+        assert!(exists<TopUpManager>(deployer_address), error::not_found(E_NOT_INITIALIZED));
+        let manager = borrow_global<TopUpManager>(deployer_address);
+        let threshold = manager.threshold;
+        let topup_amount = manager.topup_amount;
+        execute_topup<SupraCoin>(deployer, target, threshold, topup_amount);
+    }
+
+    public entry fun auto_topup_with_params(
+        deployer: &signer,
+        target: address,
+        threshold: u64,
+        topup_amount: u64,
+    ) acquires TopUpManager {
+        auto_topup_coin<SupraCoin>(deployer, target, threshold, topup_amount);
+    }
+
+    /// Same as `auto_topup_with_params` for any coin the deployer holds, e.g. a stablecoin buffer.
+    public entry fun auto_topup_coin<CoinType>(
+        deployer: &signer,
+        target: address,
+        threshold: u64,
+        topup_amount: u64,
+    ) acquires TopUpManager {
+        assert!(threshold > 0 && topup_amount > 0, error::invalid_argument(E_INVALID_PARAMETERS));
+        execute_topup<CoinType>(deployer, target, threshold, topup_amount);
+    }
+
+    fun execute_topup<CoinType>(
+        deployer: &signer,
+        target: address,
+        threshold: u64,
+        topup_amount: u64,
     ) acquires TopUpManager {
         let deployer_address = signer::address_of(deployer);
         let current_time = timestamp::now_seconds();
@@ -60,15 +132,17 @@ module your_address::autofinal {
         event::emit(AutomationExecutedEvent {
             deployer: deployer_address,
             target,
+            coin_type: type_info::type_name<CoinType>(),
             action_taken: b"automation_started",
-            target_balance: if (coin::is_account_registered<SupraCoin>(target)) coin::balance<SupraCoin>(target) else 0,
+            target_balance: if (coin::is_account_registered<CoinType>(target)) coin::balance<CoinType>(target) else 0,
             execution_count: manager.total_topups,
             timestamp: current_time,
         });
-            if (!coin::is_account_registered<SupraCoin>(target)) {
+            if (!coin::is_account_registered<CoinType>(target)) {
             event::emit(AutomationExecutedEvent {
                 deployer: deployer_address,
                 target,
+                coin_type: type_info::type_name<CoinType>(),
                 action_taken: b"target_not_registered",
                 target_balance: 0,
                 execution_count: manager.total_topups,
@@ -76,19 +150,19 @@ module your_address::autofinal {
             });
             return
         };
-        let target_balance = coin::balance<SupraCoin>(target);
-        if (target_balance < manager.threshold) {
-            let deployer_balance = coin::balance<SupraCoin>(deployer_address);
+        let target_balance = coin::balance<CoinType>(target);
+        if (target_balance < threshold) {
+            let deployer_balance = coin::balance<CoinType>(deployer_address);
             
-            if (deployer_balance >= manager.topup_amount) {
-                coin::transfer<SupraCoin>(deployer, target, manager.topup_amount);
+            if (deployer_balance >= topup_amount) {
+                coin::transfer<CoinType>(deployer, target, topup_amount);
                             manager.total_topups = manager.total_topups + 1;
                 manager.last_topup_time = current_time;
-                let target_balance_after = coin::balance<SupraCoin>(target);
+                let target_balance_after = coin::balance<CoinType>(target);
                 event::emit(AutoTopUpEvent {
                     deployer: deployer_address,
                     target,
-                    amount: manager.topup_amount,
+                    amount: topup_amount,
                     target_balance_before: target_balance,
                     target_balance_after,
                     execution_count: manager.total_topups,
@@ -98,6 +172,7 @@ module your_address::autofinal {
                 event::emit(AutomationExecutedEvent {
                     deployer: deployer_address,
                     target,
+                    coin_type: type_info::type_name<CoinType>(),
                     action_taken: b"topup_executed",
                     target_balance: target_balance_after,
                     execution_count: manager.total_topups,
@@ -107,6 +182,7 @@ module your_address::autofinal {
                 event::emit(AutomationExecutedEvent {
                     deployer: deployer_address,
                     target,
+                    coin_type: type_info::type_name<CoinType>(),
                     action_taken: b"insufficient_deployer_balance",
                     target_balance,
                     execution_count: manager.total_topups,
@@ -117,6 +193,7 @@ module your_address::autofinal {
             event::emit(AutomationExecutedEvent {
                 deployer: deployer_address,
                 target,
+                coin_type: type_info::type_name<CoinType>(),
                 action_taken: b"no_topup_needed",
                 target_balance,
                 execution_count: manager.total_topups,
@@ -124,6 +201,160 @@ module your_address::autofinal {
             });
         }
     }
+    /// Pays `amount` to `recipient` at most once per `interval_secs`, from `start_time` until
+    /// `end_time` or `max_payments` is reached (0 disables either limit). Runs every block as an
+    /// automation task and does nothing while the next payment is not due.
+    public entry fun scheduled_transfer(
+        deployer: &signer,
+        recipient: address,
+        schedule_id: u64,
+        amount: u64,
+        interval_secs: u64,
+        start_time: u64,
+        end_time: u64,
+        max_payments: u64,
+    ) acquires TransferSchedules {
+        scheduled_transfer_coin<SupraCoin>(deployer, recipient, schedule_id, amount, interval_secs, start_time, end_time, max_payments);
+    }
+
+    public entry fun scheduled_transfer_coin<CoinType>(
+        deployer: &signer,
+        recipient: address,
+        schedule_id: u64,
+        amount: u64,
+        interval_secs: u64,
+        start_time: u64,
+        end_time: u64,
+        max_payments: u64,
+    ) acquires TransferSchedules {
+        assert!(amount > 0 && interval_secs > 0, error::invalid_argument(E_INVALID_PARAMETERS));
+        assert!(end_time == 0 || end_time > start_time, error::invalid_argument(E_INVALID_PARAMETERS));
+        let deployer_address = signer::address_of(deployer);
+        let current_time = timestamp::now_seconds();
+        if (current_time < start_time || (end_time > 0 && current_time > end_time)) {
+            return
+        };
+        if (!exists<TransferSchedules>(deployer_address)) {
+            move_to(deployer, TransferSchedules { schedules: table::new() });
+        };
+        let book = borrow_global_mut<TransferSchedules>(deployer_address);
+        if (!table::contains(&book.schedules, schedule_id)) {
+            table::add(&mut book.schedules, schedule_id, TransferSchedule {
+                recipient,
+                payments_made: 0,
+                last_payment_time: 0,
+            });
+        };
+        let schedule = table::borrow_mut(&mut book.schedules, schedule_id);
+        if (max_payments > 0 && schedule.payments_made >= max_payments) {
+            return
+        };
+        if (schedule.payments_made > 0 && current_time < schedule.last_payment_time + interval_secs) {
+            return
+        };
+        if (!coin::is_account_registered<CoinType>(recipient)) {
+            event::emit(ScheduledTransferEvent {
+                deployer: deployer_address,
+                recipient,
+                schedule_id,
+                coin_type: type_info::type_name<CoinType>(),
+                action_taken: b"target_not_registered",
+                amount: 0,
+                payments_made: schedule.payments_made,
+                recipient_balance: 0,
+                timestamp: current_time,
+            });
+            return
+        };
+        if (coin::balance<CoinType>(deployer_address) < amount) {
+            event::emit(ScheduledTransferEvent {
+                deployer: deployer_address,
+                recipient,
+                schedule_id,
+                coin_type: type_info::type_name<CoinType>(),
+                action_taken: b"insufficient_deployer_balance",
+                amount: 0,
+                payments_made: schedule.payments_made,
+                recipient_balance: coin::balance<CoinType>(recipient),
+                timestamp: current_time,
+            });
+            return
+        };
+        coin::transfer<CoinType>(deployer, recipient, amount);
+        schedule.payments_made = schedule.payments_made + 1;
+        schedule.last_payment_time = current_time;
+        event::emit(ScheduledTransferEvent {
+            deployer: deployer_address,
+            recipient,
+            schedule_id,
+            coin_type: type_info::type_name<CoinType>(),
+            action_taken: b"scheduled_transfer_executed",
+            amount,
+            payments_made: schedule.payments_made,
+            recipient_balance: coin::balance<CoinType>(recipient),
+            timestamp: current_time,
+        });
+    }
+    /// Moves everything above `ceiling` from the signing wallet to `treasury`, once the excess
+    /// reaches `min_sweep`. Runs every block as an automation task and does nothing below that.
+    public entry fun sweep_excess(
+        source: &signer,
+        treasury: address,
+        ceiling: u64,
+        min_sweep: u64,
+    ) {
+        sweep_excess_coin<SupraCoin>(source, treasury, ceiling, min_sweep);
+    }
+
+    public entry fun sweep_excess_coin<CoinType>(
+        source: &signer,
+        treasury: address,
+        ceiling: u64,
+        min_sweep: u64,
+    ) {
+        assert!(min_sweep > 0, error::invalid_argument(E_INVALID_PARAMETERS));
+        let source_address = signer::address_of(source);
+        let current_time = timestamp::now_seconds();
+        let source_balance = coin::balance<CoinType>(source_address);
+        if (source_balance <= ceiling || source_balance - ceiling < min_sweep) {
+            return
+        };
+        if (!coin::is_account_registered<CoinType>(treasury)) {
+            event::emit(ExcessSweptEvent {
+                source: source_address,
+                treasury,
+                coin_type: type_info::type_name<CoinType>(),
+                action_taken: b"target_not_registered",
+                amount: 0,
+                source_balance,
+                timestamp: current_time,
+            });
+            return
+        };
+        let amount = source_balance - ceiling;
+        coin::transfer<CoinType>(source, treasury, amount);
+        event::emit(ExcessSweptEvent {
+            source: source_address,
+            treasury,
+            coin_type: type_info::type_name<CoinType>(),
+            action_taken: b"sweep_executed",
+            amount,
+            source_balance: coin::balance<CoinType>(source_address),
+            timestamp: current_time,
+        });
+    }
+    #[view]
+    public fun get_schedule(deployer: address, schedule_id: u64): (u64, u64) acquires TransferSchedules {
+        if (!exists<TransferSchedules>(deployer)) {
+            return (0, 0)
+        };
+        let book = borrow_global<TransferSchedules>(deployer);
+        if (!table::contains(&book.schedules, schedule_id)) {
+            return (0, 0)
+        };
+        let schedule = table::borrow(&book.schedules, schedule_id);
+        (schedule.payments_made, schedule.last_payment_time)
+    }
     #[view]
     public fun get_topup_stats(deployer: address): (u64, u64, u64, u64) acquires TopUpManager {
         if (!exists<TopUpManager>(deployer)) {
@@ -145,6 +376,10 @@ module your_address::autofinal {
         let target_balance = coin::balance<SupraCoin>(target);
         target_balance < manager.threshold
     }
+    #[view]
+    public fun will_topup_trigger_at(target: address, threshold: u64): bool {
+        coin::is_account_registered<SupraCoin>(target) && coin::balance<SupraCoin>(target) < threshold
+    }
     public entry fun manual_topup_test(
         deployer: &signer,
         target: address,
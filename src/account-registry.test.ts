@@ -0,0 +1,29 @@
+import { HexString, SupraAccount } from 'supra-l1-sdk';
+import { loadAccountRegistryFromEnv } from './account-registry';
+import { AccountSigner } from './signer';
+
+function privateKeyOf(account: SupraAccount): string {
+  return HexString.fromUint8Array(account.signingKey.secretKey.slice(0, 32)).toString();
+}
+
+describe('loadAccountRegistryFromEnv', () => {
+  it('skips environment keys the keystore already unlocked', () => {
+    const imported = new SupraAccount();
+    const other = new SupraAccount();
+    const warnings: string[] = [];
+    const registry = loadAccountRegistryFromEnv(
+      { SUPRA_PRIVATE_KEY: privateKeyOf(imported), SUPRA_ACCOUNT_OPS: privateKeyOf(other), SUPRA_ACCOUNT_TREASURY: privateKeyOf(new SupraAccount()) },
+      [{ name: 'default', signer: new AccountSigner(imported) }, { name: 'ops-key', signer: new AccountSigner(other) }],
+      message => warnings.push(message)
+    );
+    expect(registry.names()).toEqual(['default', 'ops-key', 'treasury']);
+    expect(warnings).toHaveLength(2);
+  });
+
+  it('still rejects two environment keys with the same name', () => {
+    expect(() => loadAccountRegistryFromEnv({
+      SUPRA_PRIVATE_KEY: privateKeyOf(new SupraAccount()),
+      SUPRA_ACCOUNT_DEFAULT: privateKeyOf(new SupraAccount())
+    })).toThrow('already registered');
+  });
+});
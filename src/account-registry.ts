@@ -0,0 +1,132 @@
+import { SupraAccount, HexString } from 'supra-l1-sdk';
+import { AccountSigner, TransactionSigner } from './signer';
+
+export const DEFAULT_ACCOUNT_NAME = 'default';
+const ACCOUNT_ENV_PREFIX = 'SUPRA_ACCOUNT_';
+const ACCOUNT_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,31}$/;
+
+export interface NamedAccount {
+  name: string;
+  address: string;
+  signer: TransactionSigner;
+}
+
+export function isValidAccountName(name: string): boolean {
+  return ACCOUNT_NAME_PATTERN.test(name);
+}
+
+export function accountFromPrivateKey(privateKeyHex: string): SupraAccount {
+  const cleanHex = privateKeyHex.startsWith('0x') ? privateKeyHex.slice(2) : privateKeyHex;
+  if (!/^[a-fA-F0-9]{64}$/.test(cleanHex)) {
+    throw new Error('Invalid private key format. Must be 64 hex characters.');
+  }
+  return new SupraAccount(new HexString(cleanHex).toUint8Array());
+}
+
+/**
+ * Named signing accounts. Each strategy records the name of the account that funds it, so
+ * registrations, cancellations and event indexing always use that account's key and address.
+ */
+export class AccountRegistry {
+  private accounts: Map<string, NamedAccount> = new Map();
+  private activeName?: string;
+
+  static single(signer: TransactionSigner, name: string = DEFAULT_ACCOUNT_NAME): AccountRegistry {
+    const registry = new AccountRegistry();
+    registry.add(name, signer);
+    return registry;
+  }
+
+  add(name: string, signer: TransactionSigner): NamedAccount {
+    if (!isValidAccountName(name)) {
+      throw new Error(`Invalid account name "${name}": use lowercase letters, digits, "-" or "_" (max 32 characters)`);
+    }
+    if (this.accounts.has(name)) {
+      throw new Error(`Account "${name}" is already registered`);
+    }
+    const entry: NamedAccount = { name, address: signer.address, signer };
+    this.accounts.set(name, entry);
+    this.activeName ??= name;
+    return entry;
+  }
+
+  get(name: string): NamedAccount | undefined {
+    return this.accounts.get(name);
+  }
+
+  require(name?: string): NamedAccount {
+    const entry = this.accounts.get(name ?? this.activeName ?? '');
+    if (!entry) {
+      throw new Error(`Unknown funding account "${name}". Configured accounts: ${this.names().join(', ') || 'none'}`);
+    }
+    return entry;
+  }
+
+  use(name: string): NamedAccount {
+    const entry = this.require(name);
+    this.activeName = entry.name;
+    return entry;
+  }
+
+  get active(): NamedAccount {
+    return this.require();
+  }
+
+  list(): NamedAccount[] {
+    return Array.from(this.accounts.values());
+  }
+
+  names(): string[] {
+    return Array.from(this.accounts.keys());
+  }
+
+  get size(): number {
+    return this.accounts.size;
+  }
+}
+
+/**
+ * Unlocked keystore keys are registered first under their own names. `SUPRA_PRIVATE_KEY` becomes
+ * the "default" account and every `SUPRA_ACCOUNT_<NAME>` variable adds one named `<name>` in
+ * lowercase; both are plaintext and meant for development. An environment key whose name or
+ * address the keystore already provides is skipped with a warning, which is the state right after
+ * `keys import --from-env`. `SUPRA_ACTIVE_ACCOUNT` picks the account used when a strategy does not name one.
+ */
+export function loadAccountRegistryFromEnv(
+  env: NodeJS.ProcessEnv = process.env,
+  unlocked: Array<{ name: string; signer: TransactionSigner }> = [],
+  warn: (message: string) => void = console.warn
+): AccountRegistry {
+  const registry = new AccountRegistry();
+  for (const { name, signer } of unlocked) {
+    registry.add(name, signer);
+  }
+  const addFromEnv = (key: string, name: string, privateKey: string) => {
+    let signer: AccountSigner;
+    try {
+      signer = new AccountSigner(accountFromPrivateKey(privateKey));
+    } catch (error: any) {
+      throw new Error(`${key}: ${error.message}`);
+    }
+    const sameKey = unlocked.find(k => k.signer.address.toLowerCase() === signer.address.toLowerCase());
+    if (sameKey || unlocked.some(k => k.name === name)) {
+      warn(`⚠️ Ignoring ${key}: the keystore already provides ${sameKey ? `this key as "${sameKey.name}"` : `an account named "${name}"`}`);
+      return;
+    }
+    registry.add(name, signer);
+  };
+  if (env.SUPRA_PRIVATE_KEY) {
+    addFromEnv('SUPRA_PRIVATE_KEY', DEFAULT_ACCOUNT_NAME, env.SUPRA_PRIVATE_KEY);
+  }
+  for (const [key, value] of Object.entries(env)) {
+    if (!key.startsWith(ACCOUNT_ENV_PREFIX) || !value) continue;
+    addFromEnv(key, key.slice(ACCOUNT_ENV_PREFIX.length).toLowerCase(), value);
+  }
+  if (registry.size === 0) {
+    throw new Error('No signing account configured: import a key with `super-agent keys import` or set SUPRA_PRIVATE_KEY');
+  }
+  if (env.SUPRA_ACTIVE_ACCOUNT) {
+    registry.use(env.SUPRA_ACTIVE_ACCOUNT);
+  }
+  return registry;
+}
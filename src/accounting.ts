@@ -0,0 +1,12 @@
+export const MICRO_SUPRA_PER_SUPRA = 1_000_000;
+
+/** History entries the agent records for task lifecycle changes rather than automation runs. */
+export const NON_EXECUTION_ACTIONS = ['registration', 'renewal', 'cancellation'];
+
+export function toSupra(amount: bigint): number {
+  return Number(amount) / MICRO_SUPRA_PER_SUPRA;
+}
+
+export function toMicroSupra(amountSupra: number): bigint {
+  return BigInt(Math.round(amountSupra * MICRO_SUPRA_PER_SUPRA));
+}
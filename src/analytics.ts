@@ -0,0 +1,186 @@
+import { AutomationStrategy, ExecutionRecord } from './types';
+import { CoinInfo, SUPRA_COIN, fromBaseUnits } from './coin-metadata';
+import { NON_EXECUTION_ACTIONS, toSupra } from './accounting';
+import { StrategyTypeDefinition } from './strategy-types';
+
+/** What the analytics read from a strategy's type: its transfer actions and whether they return funds. */
+export type ExecutionKinds = Pick<StrategyTypeDefinition, 'executionEvents' | 'returnsFunds'>;
+
+export const TIMEFRAMES: Record<string, number> = {
+  '1h': 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000
+};
+
+/** `supraTransferred` and `supraSwept` are whole units of `coinSymbol`; fees are always SUPRA. */
+export interface StrategyAnalyticsRow {
+  id: string;
+  name: string;
+  target: string;
+  isActive: boolean;
+  coinSymbol: string;
+  executions: number;
+  failures: number;
+  topups: number;
+  sweeps: number;
+  supraTransferred: number;
+  supraSwept: number;
+  feesPaidSupra: number;
+  successRate: number | null;
+  lastExecutionAt?: Date;
+}
+
+export interface TimeframeAnalytics {
+  timeframe: string;
+  windowStart: Date;
+  windowEnd: Date;
+  overview: {
+    totalStrategies: number;
+    activeStrategies: number;
+    executions: number;
+    successfulExecutions: number;
+    failedExecutions: number;
+    topups: number;
+    sweeps: number;
+    supraTransferred: number;
+    supraSwept: number;
+    /** Amounts moved per coin symbol, SUPRA included. */
+    transferredByCoin: Record<string, number>;
+    feesPaidSupra: number;
+    successRate: number | null;
+  };
+  failureBreakdown: Record<string, number>;
+  performance: {
+    healthyStrategies: number;
+    warningStrategies: number;
+    criticalStrategies: number;
+    idleStrategies: number;
+    uptime: number | null;
+  };
+  strategies: StrategyAnalyticsRow[];
+}
+
+export function recordsInWindow(strategy: AutomationStrategy, windowStart: Date, windowEnd: Date): ExecutionRecord[] {
+  return strategy.executionHistory.filter(r => r.timestamp >= windowStart && r.timestamp <= windowEnd);
+}
+
+function buildStrategyRow(strategy: AutomationStrategy, records: ExecutionRecord[], coin: CoinInfo, kinds: ExecutionKinds): StrategyAnalyticsRow {
+  const executions = records.filter(r => !NON_EXECUTION_ACTIONS.includes(r.action));
+  const failures = executions.filter(r => !r.success).length;
+  // Transfers that return funds are sweeps; every other transfer, such as a scheduled payment, is a top-up.
+  const transfers = executions.filter(r => kinds.executionEvents?.[r.action] !== undefined);
+  const sweeps = kinds.returnsFunds ? transfers.filter(r => r.success) : [];
+  return {
+    id: strategy.id,
+    name: strategy.name,
+    target: strategy.parameters.target,
+    isActive: strategy.isActive,
+    coinSymbol: coin.symbol,
+    executions: executions.length,
+    failures,
+    topups: kinds.returnsFunds ? 0 : transfers.length,
+    sweeps: sweeps.length,
+    supraTransferred: fromBaseUnits(records.reduce((sum, r) => sum + r.amount, BigInt(0)), coin),
+    supraSwept: fromBaseUnits(sweeps.reduce((sum, r) => sum + r.amount, BigInt(0)), coin),
+    feesPaidSupra: toSupra(records.reduce((sum, r) => sum + r.fee, BigInt(0))),
+    successRate: executions.length > 0 ? (executions.length - failures) / executions.length : null,
+    lastExecutionAt: executions.length > 0 ? executions[executions.length - 1].timestamp : undefined
+  };
+}
+
+export function buildTimeframeAnalytics(
+  strategies: AutomationStrategy[],
+  timeframe: string,
+  now: Date = new Date(),
+  coinOf: (strategy: AutomationStrategy) => CoinInfo = () => SUPRA_COIN,
+  kindsOf: (strategy: AutomationStrategy) => ExecutionKinds = () => ({})
+): TimeframeAnalytics {
+  const windowMs = TIMEFRAMES[timeframe];
+  if (windowMs === undefined) {
+    throw new Error(`Unsupported timeframe: ${timeframe}. Use one of ${Object.keys(TIMEFRAMES).join(', ')}`);
+  }
+  const windowStart = new Date(now.getTime() - windowMs);
+  const failureBreakdown: Record<string, number> = {};
+  const rows: StrategyAnalyticsRow[] = [];
+
+  for (const strategy of strategies) {
+    const records = recordsInWindow(strategy, windowStart, now);
+    if (!strategy.isActive && records.length === 0) continue;
+    for (const record of records) {
+      if (!record.success && !NON_EXECUTION_ACTIONS.includes(record.action)) {
+        failureBreakdown[record.action] = (failureBreakdown[record.action] ?? 0) + 1;
+      }
+    }
+    rows.push(buildStrategyRow(strategy, records, coinOf(strategy), kindsOf(strategy)));
+  }
+
+  const executions = rows.reduce((sum, r) => sum + r.executions, 0);
+  const failures = rows.reduce((sum, r) => sum + r.failures, 0);
+  const activeRows = rows.filter(r => r.isActive);
+  const executingRows = activeRows.filter(r => r.executions > 0);
+  const supraRows = rows.filter(r => r.coinSymbol === SUPRA_COIN.symbol);
+  const transferredByCoin: Record<string, number> = {};
+  for (const row of rows) {
+    transferredByCoin[row.coinSymbol] = (transferredByCoin[row.coinSymbol] ?? 0) + row.supraTransferred;
+  }
+
+  return {
+    timeframe,
+    windowStart,
+    windowEnd: now,
+    overview: {
+      totalStrategies: strategies.length,
+      activeStrategies: strategies.filter(s => s.isActive).length,
+      executions,
+      successfulExecutions: executions - failures,
+      failedExecutions: failures,
+      topups: rows.reduce((sum, r) => sum + r.topups, 0),
+      sweeps: rows.reduce((sum, r) => sum + r.sweeps, 0),
+      supraTransferred: supraRows.reduce((sum, r) => sum + r.supraTransferred, 0),
+      supraSwept: supraRows.reduce((sum, r) => sum + r.supraSwept, 0),
+      transferredByCoin,
+      feesPaidSupra: rows.reduce((sum, r) => sum + r.feesPaidSupra, 0),
+      successRate: executions > 0 ? (executions - failures) / executions : null
+    },
+    failureBreakdown,
+    performance: {
+      healthyStrategies: executingRows.filter(r => r.successRate! > 0.95).length,
+      warningStrategies: executingRows.filter(r => r.successRate! <= 0.95 && r.successRate! > 0.8).length,
+      criticalStrategies: executingRows.filter(r => r.successRate! <= 0.8).length,
+      idleStrategies: activeRows.length - executingRows.length,
+      uptime: activeRows.length > 0 ? executingRows.length / activeRows.length : null
+    },
+    strategies: rows
+  };
+}
+
+export function deriveRecommendations(analytics: TimeframeAnalytics): string[] {
+  const recommendations: string[] = [];
+  const { overview, failureBreakdown, timeframe } = analytics;
+
+  if (overview.activeStrategies === 0) {
+    recommendations.push('No active strategies - create an auto top-up strategy to start automating balances');
+    return recommendations;
+  }
+  if (failureBreakdown.insufficient_deployer_balance) {
+    recommendations.push(`Fund the deployer account: ${failureBreakdown.insufficient_deployer_balance} top-ups were skipped for insufficient deployer balance in the last ${timeframe}`);
+  }
+  if (failureBreakdown.target_not_registered) {
+    const targets = analytics.strategies
+      .filter(r => r.failures > 0)
+      .map(r => r.target);
+    recommendations.push(`Register the strategies' coins on the target wallets (${targets.join(', ')}) - executions are failing with target_not_registered`);
+  }
+  for (const row of analytics.strategies.filter(r => r.isActive && r.executions === 0)) {
+    recommendations.push(`"${row.name}" recorded no executions in the last ${timeframe} - run a sync to check its automation task is still registered`);
+  }
+  const hours = (analytics.windowEnd.getTime() - analytics.windowStart.getTime()) / (60 * 60 * 1000);
+  for (const row of analytics.strategies.filter(r => r.topups / hours > 1)) {
+    recommendations.push(`"${row.name}" topped up ${row.topups} times in the last ${timeframe} - consider a larger top-up amount to reduce execution frequency`);
+  }
+  if (recommendations.length === 0) {
+    recommendations.push(`All active strategies executed without failures in the last ${timeframe}`);
+  }
+  return recommendations;
+}
@@ -0,0 +1,331 @@
+import { AutomationStrategy, ChainTaskStatus, StrategyParameters } from './types';
+import { TimeframeAnalytics } from './analytics';
+import { MonthlyCostProjection } from './cost-model';
+import { PolicyViolation } from './policy-engine';
+
+export interface OperationFailure {
+  success: false;
+  error: string;
+  message: string;
+  suggestions?: string[];
+  troubleshooting?: string[];
+}
+
+export interface PolicyViolationFailure extends OperationFailure {
+  error: 'POLICY_VIOLATION';
+  violations: PolicyViolation[];
+}
+
+/** Fields every strategy type accepts; a request adds the type's own tool arguments. */
+export interface StrategyRequest {
+  strategyName: string;
+  fundingAccount?: string;
+  lifetimeHours?: number;
+  /** Defaults to SupraCoin. */
+  coinType?: string;
+}
+
+/** A request for one strategy type, typed by that type's tool arguments. */
+export type CreateStrategyRequest<A extends object = AutoTopupToolArgs> = StrategyRequest & A;
+
+export interface AutoTopupToolArgs {
+  targetAddress: string;
+  thresholdSupra?: number;
+  topupAmountSupra?: number;
+}
+
+export interface ScheduledTransferToolArgs {
+  recipientAddress: string;
+  amountSupra: number;
+  /** One of the preset intervals, e.g. `daily`. */
+  interval?: string;
+  intervalHours?: number;
+  /** ISO date or time. */
+  startDate?: string;
+  endDate?: string;
+  maxPayments?: number;
+  scheduleId?: number;
+}
+
+export interface SweepExcessToolArgs {
+  treasuryAddress: string;
+  ceilingSupra: number;
+  minSweepSupra?: number;
+}
+
+export interface RegistrationSummary {
+  fundingAccount: string;
+  sender: string;
+  sequenceNumber: string;
+  function: string;
+  strategyType: string;
+  target: string;
+  coinType: string;
+  parameters: StrategyParameters;
+  maxGasAmount: string;
+  gasPriceCap: string;
+  automationFeeCap: string;
+  automationFeeCapSupra: number;
+  feeCapSource: string;
+  expiresAt: Date;
+}
+
+/** A signed-ready registration transaction and the summary shown for it. */
+export interface PreparedRegistration {
+  serializedTx: Uint8Array;
+  summary: RegistrationSummary;
+}
+
+export interface CreateStrategySuccess {
+  success: true;
+  mode: 'LIVE';
+  strategyId: string;
+  txHash: string;
+  taskId?: number;
+  gasUsed: string;
+  message: string;
+  strategy: AutomationStrategy;
+  estimatedMonthlyCost: MonthlyCostProjection;
+}
+
+export interface CreateStrategyDryRun {
+  success: true;
+  mode: 'DRY_RUN';
+  message: string;
+  wouldSend: RegistrationSummary & { serializedTransaction: string };
+}
+
+export type CreateStrategyResult = CreateStrategySuccess | CreateStrategyDryRun | PolicyViolationFailure | OperationFailure;
+
+export interface CancelStrategySuccess {
+  success: true;
+  mode: 'LIVE';
+  message: string;
+  strategyId: string;
+  taskId: number;
+  txHash: string;
+}
+
+export interface CancelStrategyDryRun {
+  success: true;
+  mode: 'DRY_RUN';
+  message: string;
+  strategyId: string;
+  wouldSend: {
+    function: string;
+    taskId: number;
+    serializedTransaction: string;
+  };
+}
+
+export type CancelFailureCode = 'STRATEGY_NOT_FOUND' | 'ALREADY_INACTIVE' | 'TASK_ID_UNKNOWN' | 'CANCEL_REJECTED' | 'CANCEL_FAILED';
+
+export interface CancelStrategyFailure extends OperationFailure {
+  error: CancelFailureCode;
+  strategyId: string;
+  taskId?: number;
+  txHash?: string;
+}
+
+export type CancelStrategyResult = CancelStrategySuccess | CancelStrategyDryRun | CancelStrategyFailure;
+
+export interface RenewStrategySuccess {
+  success: true;
+  mode: 'LIVE';
+  message: string;
+  strategyId: string;
+  taskId?: number;
+  /** Keeps running until the renewed task is active, then reconciliation or the periodic check cancels it. */
+  previousTaskId?: number;
+  txHash: string;
+  expiresAt: Date;
+}
+
+export interface RenewStrategyDryRun {
+  success: true;
+  mode: 'DRY_RUN';
+  message: string;
+  strategyId: string;
+  wouldSend: RegistrationSummary & { serializedTransaction: string };
+}
+
+export type RenewFailureCode = 'STRATEGY_NOT_FOUND' | 'ALREADY_INACTIVE' | 'RENEW_FAILED';
+
+export interface RenewStrategyFailure extends OperationFailure {
+  error: RenewFailureCode;
+  strategyId: string;
+}
+
+export type RenewStrategyResult = RenewStrategySuccess | RenewStrategyDryRun | RenewStrategyFailure | PolicyViolationFailure;
+
+export interface StrategySummary {
+  id: string;
+  name: string;
+  type: AutomationStrategy['type'];
+  description: string;
+  createdAt: Date;
+  parameters: AutomationStrategy['parameters'];
+  details: string;
+  fundingAccount?: string;
+  taskId?: number;
+  chainStatus?: ChainTaskStatus;
+  expiresAt?: Date;
+  executionCount: number;
+  successRate: number;
+}
+
+export interface ListStrategiesResult {
+  success: true;
+  strategies: StrategySummary[];
+  count: number;
+}
+
+export interface HealthStatus {
+  status: 'healthy' | 'needs_topup' | 'above_ceiling' | 'payment_failed' | 'unknown';
+  balanceRatio?: number;
+  willTrigger?: boolean;
+  hoursUntilExpiry?: number;
+  expiringSoon?: boolean;
+  excessSupra?: number;
+  paymentsMade?: number;
+  nextPaymentDue?: Date;
+  recommendation: string;
+}
+
+export interface StrategyStatus extends AutomationStrategy {
+  currentBalance?: string;
+  balanceInCoin?: number;
+  balanceInSupra?: number;
+  coinSymbol?: string;
+  balanceError?: string;
+  healthStatus: HealthStatus;
+}
+
+export interface StatusSummary {
+  totalStrategies: number;
+  healthyStrategies: number;
+  strategiesNeedingTopup: number;
+  strategiesWithUnknownBalance: number;
+  strategiesExpiringSoon: number;
+  overallHealth: 'excellent' | 'good' | 'attention_needed';
+}
+
+export interface SingleStrategyStatusResult {
+  success: true;
+  strategy: StrategyStatus;
+}
+
+export interface AllStrategiesStatusResult {
+  success: true;
+  strategies: StrategyStatus[];
+  summary: StatusSummary;
+}
+
+export type CheckStatusResult = SingleStrategyStatusResult | AllStrategiesStatusResult | OperationFailure;
+
+export interface AnalyticsReport extends TimeframeAnalytics {
+  lifetime: {
+    totalExecutions: number;
+    averageSuccessRate: number;
+    totalValueTransferred: number;
+    totalSwept: number;
+    transferredByCoin: Record<string, number>;
+  };
+  costs: MonthlyCostProjection;
+  /** Strategies whose coin metadata could not be loaded; they are left out of the rows and coin totals. */
+  unresolvedStrategyIds: string[];
+}
+
+export interface AnalyticsSuccess {
+  success: true;
+  analytics: AnalyticsReport;
+  generatedAt: Date;
+  recommendations: string[];
+}
+
+export type AnalyticsResult = AnalyticsSuccess | OperationFailure;
+
+export interface ReconcileSuccess {
+  success: true;
+  onChainTasks: number;
+  linked: Array<{ strategyId: string; previousTaskId?: number; taskId: number }>;
+  imported: Array<{ strategyId: string; taskId: number; target: string }>;
+  /** Missing tasks are only flagged; cancelled or expired ones also deactivate their strategy. */
+  flagged: Array<{ strategyId: string; name: string; taskId?: number; chainStatus?: ChainTaskStatus; deactivated: boolean }>;
+  unrecognizedTaskIds: number[];
+  /** This agent's tasks whose coin metadata could not be loaded; neither matched nor imported until it can. */
+  unresolvedTaskIds: number[];
+  message: string;
+}
+
+export type ReconcileResult = ReconcileSuccess | OperationFailure;
+
+export interface AccountSummary {
+  name: string;
+  address: string;
+  active: boolean;
+  activeStrategies: number;
+  balanceSupra?: number;
+  balanceError?: string;
+}
+
+export interface ListAccountsResult {
+  success: true;
+  accounts: AccountSummary[];
+  activeAccount: string;
+}
+
+export interface UseAccountSuccess {
+  success: true;
+  account: AccountSummary;
+  message: string;
+}
+
+export type UseAccountResult = UseAccountSuccess | OperationFailure;
+
+export type CreateStrategyTool = `create_${string}_strategy`;
+
+export type ConfirmableTool = CreateStrategyTool | 'cancel_automation_strategy' | 'renew_strategy';
+
+export interface PendingActionSummary {
+  action: string;
+  strategyName: string;
+  strategyId?: string;
+  taskId?: number;
+  fundingAccount: string;
+  strategyType: string;
+  target: string;
+  parameters: StrategyParameters;
+  details: string;
+  automationFeeCapSupra?: number;
+  expiresAt?: Date;
+  estimatedMonthlyCostSupra?: number;
+}
+
+export interface PendingAction {
+  id: string;
+  tool: ConfirmableTool;
+  args: any;
+  summary: PendingActionSummary;
+  /** What confirming creates or renews with; confirmation sends exactly this transaction. */
+  registration?: PreparedRegistration;
+  createdAt: Date;
+}
+
+export interface PendingConfirmationResult {
+  success: true;
+  status: 'PENDING_CONFIRMATION';
+  actionId: string;
+  summary: PendingActionSummary;
+  message: string;
+}
+
+export type ConfirmActionResult = CreateStrategyResult | CancelStrategyResult | RenewStrategyResult | OperationFailure;
+
+export interface RejectActionSuccess {
+  success: true;
+  actionId: string;
+  message: string;
+}
+
+export type RejectActionResult = RejectActionSuccess | OperationFailure;
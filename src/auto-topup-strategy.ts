@@ -0,0 +1,123 @@
+import { BCS, HexString } from 'supra-l1-sdk';
+import { AutoTopupParameters } from './types';
+import { AutoTopupToolArgs } from './api-types';
+import { decodeAddressArg, decodeU64Arg, isValidAddress, normalizeAddress } from './automation-registry';
+import { fromBaseUnits, formatCoinAmount, toBaseUnits } from './coin-metadata';
+import { executionMovesCoin } from './event-indexer';
+import { StrategyTypeDefinition } from './strategy-types';
+
+export const DEFAULT_THRESHOLD_SUPRA = 600;
+export const DEFAULT_TOPUP_AMOUNT_SUPRA = 50;
+
+/** Tops the target up by a fixed amount whenever its balance drops below the threshold. */
+export const autoTopupStrategy: StrategyTypeDefinition<AutoTopupParameters, AutoTopupToolArgs> = {
+  type: 'auto_topup',
+  label: 'auto top-up',
+  idPrefix: 'topup',
+  entryFunction: 'auto_topup_coin',
+  tool: {
+    name: 'create_auto_topup_strategy',
+    description: "Create an automated top-up strategy with smart validation and a monthly cost projection",
+    properties: {
+      targetAddress: {
+        type: "string",
+        description: "32-byte hex address to monitor and top-up (must start with 0x)"
+      },
+      thresholdSupra: {
+        type: "number",
+        description: `Balance, in whole units of the strategy's coin, below which a top-up triggers (default ${DEFAULT_THRESHOLD_SUPRA})`
+      },
+      topupAmountSupra: {
+        type: "number",
+        description: `Amount of the strategy's coin transferred on each top-up (default ${DEFAULT_TOPUP_AMOUNT_SUPRA})`
+      }
+    },
+    required: ["targetAddress"]
+  },
+  defaults: {
+    thresholdSupra: DEFAULT_THRESHOLD_SUPRA,
+    topupAmountSupra: DEFAULT_TOPUP_AMOUNT_SUPRA
+  },
+
+  fromToolArgs(args) {
+    return {
+      target: args.targetAddress,
+      thresholdSupra: args.thresholdSupra ?? DEFAULT_THRESHOLD_SUPRA,
+      topupAmountSupra: args.topupAmountSupra ?? DEFAULT_TOPUP_AMOUNT_SUPRA
+    };
+  },
+
+  validate(parameters) {
+    if (typeof parameters.target !== 'string' || !isValidAddress(parameters.target)) {
+      throw new Error(`Invalid address format: ${parameters.target}. Must be 0x followed by 64 hex characters.`);
+    }
+    if (!Number.isFinite(parameters.thresholdSupra) || parameters.thresholdSupra <= 0) {
+      throw new Error(`Invalid threshold: ${parameters.thresholdSupra}. Must be a positive amount.`);
+    }
+    if (!Number.isFinite(parameters.topupAmountSupra) || parameters.topupAmountSupra <= 0) {
+      throw new Error(`Invalid top-up amount: ${parameters.topupAmountSupra}. Must be a positive amount.`);
+    }
+  },
+
+  encodeArgs(parameters, coin) {
+    return [
+      new HexString(parameters.target).toUint8Array(),
+      BCS.bcsSerializeUint64(toBaseUnits(parameters.thresholdSupra, coin)),
+      BCS.bcsSerializeUint64(toBaseUnits(parameters.topupAmountSupra, coin))
+    ];
+  },
+
+  decodeTask(payload, coin) {
+    // auto_topup_with_state predates per-strategy parameters and uses the module's stored defaults;
+    // auto_topup_with_params predates coin types and always moves SupraCoin.
+    if ((payload.functionName === 'auto_topup_coin' || payload.functionName === 'auto_topup_with_params') && payload.args.length >= 3) {
+      return {
+        target: decodeAddressArg(payload.args[0]),
+        thresholdSupra: fromBaseUnits(decodeU64Arg(payload.args[1]), coin),
+        topupAmountSupra: fromBaseUnits(decodeU64Arg(payload.args[2]), coin)
+      };
+    }
+    if (payload.functionName === 'auto_topup_with_state' && payload.args.length >= 1) {
+      return {
+        target: decodeAddressArg(payload.args[0]),
+        thresholdSupra: DEFAULT_THRESHOLD_SUPRA,
+        topupAmountSupra: DEFAULT_TOPUP_AMOUNT_SUPRA
+      };
+    }
+    return null;
+  },
+
+  matchesExecution(parameters, execution, coin) {
+    return execution.eventType === 'AutomationExecutedEvent'
+      && normalizeAddress(parameters.target) === execution.target
+      && executionMovesCoin(execution, coin.coinType);
+  },
+
+  executionEvents: { topup_executed: 'topupExecuted' },
+
+  describe(parameters, coin) {
+    return `Smart auto top-up for ${parameters.target} - adds ${parameters.topupAmountSupra} ${coin.symbol} whenever balance drops below ${parameters.thresholdSupra} ${coin.symbol}`;
+  },
+
+  formatParameters(parameters, coin) {
+    return `threshold ${parameters.thresholdSupra} ${coin.symbol}, top-up ${parameters.topupAmountSupra} ${coin.symbol}`;
+  },
+
+  calculateHealth(strategy, balance, coin) {
+    const threshold = toBaseUnits(strategy.parameters.thresholdSupra, coin);
+    return {
+      status: balance >= threshold ? 'healthy' : 'needs_topup',
+      balanceRatio: Number(balance) / Number(threshold),
+      willTrigger: balance < threshold,
+      recommendation: balance < threshold
+        ? 'Top-up will trigger automatically'
+        : 'Balance is healthy'
+    };
+  },
+
+  balanceAlert(strategy, balance, coin) {
+    const threshold = toBaseUnits(strategy.parameters.thresholdSupra, coin);
+    if (balance >= threshold * 2n) return undefined;
+    return `Balance getting low (${formatCoinAmount(balance, coin)})`;
+  }
+};
@@ -0,0 +1,192 @@
+import { HexString } from 'supra-l1-sdk';
+import { ChainGateway } from './chain-gateway';
+
+export const AUTOMATION_REGISTRY = '0x1::automation_registry';
+
+export type AutomationTaskState = 'pending' | 'active' | 'cancelled';
+
+export interface DecodedEntryFunction {
+  moduleAddress: string;
+  moduleName: string;
+  functionName: string;
+  typeArgs: string[];
+  args: Uint8Array[];
+}
+
+export interface AutomationTaskInfo {
+  taskIndex: number;
+  owner: string;
+  expiryTime: number;
+  /** Unix seconds; 0 when the registry does not report it. */
+  registrationTime: number;
+  txHash: string;
+  state: AutomationTaskState;
+  payload: DecodedEntryFunction | null;
+}
+
+class BcsReader {
+  private offset = 0;
+
+  constructor(private bytes: Uint8Array) {}
+
+  readUleb128(): number {
+    let value = 0;
+    let shift = 0;
+    while (true) {
+      const byte = this.readByte();
+      value |= (byte & 0x7f) << shift;
+      if ((byte & 0x80) === 0) return value;
+      shift += 7;
+    }
+  }
+
+  readByte(): number {
+    if (this.offset >= this.bytes.length) {
+      throw new Error('Unexpected end of BCS payload');
+    }
+    return this.bytes[this.offset++];
+  }
+
+  readBytes(length: number): Uint8Array {
+    if (this.offset + length > this.bytes.length) {
+      throw new Error('Unexpected end of BCS payload');
+    }
+    const slice = this.bytes.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  readAddress(): string {
+    return HexString.fromUint8Array(this.readBytes(32)).toString();
+  }
+
+  readString(): string {
+    return Buffer.from(this.readBytes(this.readUleb128())).toString('utf8');
+  }
+
+  readTypeTag(): string {
+    const variant = this.readUleb128();
+    switch (variant) {
+      case 0: return 'bool';
+      case 1: return 'u8';
+      case 2: return 'u64';
+      case 3: return 'u128';
+      case 4: return 'address';
+      case 5: return 'signer';
+      case 6: return `vector<${this.readTypeTag()}>`;
+      case 7: {
+        const address = this.readAddress();
+        const module = this.readString();
+        const name = this.readString();
+        const typeArgs = this.readVector(() => this.readTypeTag());
+        const generics = typeArgs.length > 0 ? `<${typeArgs.join(', ')}>` : '';
+        return `${shortAddress(address)}::${module}::${name}${generics}`;
+      }
+      case 8: return 'u16';
+      case 9: return 'u32';
+      case 10: return 'u256';
+      default:
+        throw new Error(`Unknown type tag variant: ${variant}`);
+    }
+  }
+
+  readVector<T>(readItem: () => T): T[] {
+    const length = this.readUleb128();
+    const items: T[] = [];
+    for (let i = 0; i < length; i++) {
+      items.push(readItem());
+    }
+    return items;
+  }
+}
+
+function shortAddress(address: string): string {
+  const trimmed = address.replace(/^0x0*/, '');
+  return `0x${trimmed || '0'}`;
+}
+
+export function normalizeAddress(address: string): string {
+  return `0x${address.replace(/^0x/, '').toLowerCase().padStart(64, '0')}`;
+}
+
+export function isValidAddress(address: string): boolean {
+  return /^0x[a-fA-F0-9]{64}$/.test(address);
+}
+
+export function decodeEntryFunction(payload: Uint8Array | string): DecodedEntryFunction {
+  const bytes = typeof payload === 'string' ? new HexString(payload).toUint8Array() : payload;
+  const reader = new BcsReader(bytes);
+  const moduleAddress = reader.readAddress();
+  const moduleName = reader.readString();
+  const functionName = reader.readString();
+  const typeArgs = reader.readVector(() => reader.readTypeTag());
+  const args = reader.readVector(() => reader.readBytes(reader.readUleb128()));
+  return { moduleAddress, moduleName, functionName, typeArgs, args };
+}
+
+export function decodeAddressArg(arg: Uint8Array): string {
+  return HexString.fromUint8Array(arg).toString();
+}
+
+export function decodeU64Arg(arg: Uint8Array): bigint {
+  return Buffer.from(arg).readBigUInt64LE(0);
+}
+
+export function extractTaskIndex(events: any): number | undefined {
+  if (!Array.isArray(events)) return undefined;
+  for (const event of events) {
+    const type: string = event?.type ?? event?.event_type ?? '';
+    const data = event?.data ?? event?.event_data;
+    if (type.includes('automation_registry') && data?.task_index !== undefined) {
+      return Number(data.task_index);
+    }
+  }
+  return undefined;
+}
+
+function parseTaskState(state: any): AutomationTaskState {
+  switch (Number(state)) {
+    case 0: return 'pending';
+    case 2: return 'cancelled';
+    default: return 'active';
+  }
+}
+
+function parseTaskMetadata(raw: any): AutomationTaskInfo {
+  let payload: DecodedEntryFunction | null = null;
+  try {
+    payload = raw.payload_tx ? decodeEntryFunction(raw.payload_tx) : null;
+  } catch (error) {
+    payload = null;
+  }
+  return {
+    taskIndex: Number(raw.task_index ?? raw.id),
+    owner: normalizeAddress(raw.owner),
+    expiryTime: Number(raw.expiry_time ?? 0),
+    registrationTime: Number(raw.registration_time ?? 0),
+    txHash: raw.tx_hash ?? '',
+    state: parseTaskState(raw.state),
+    payload
+  };
+}
+
+const TASK_DETAILS_PAGE_SIZE = 50;
+
+/** Details of the given tasks, read in pages; ids the registry no longer knows are left out. */
+export async function fetchTaskDetails(chain: ChainGateway, taskIds: Array<number | string>): Promise<AutomationTaskInfo[]> {
+  const tasks: AutomationTaskInfo[] = [];
+  for (let start = 0; start < taskIds.length; start += TASK_DETAILS_PAGE_SIZE) {
+    const page = taskIds.slice(start, start + TASK_DETAILS_PAGE_SIZE).map(String);
+    const [details] = await chain.view(`${AUTOMATION_REGISTRY}::get_task_details_bulk`, [], [page]);
+    for (const raw of details ?? []) {
+      tasks.push(parseTaskMetadata(raw));
+    }
+  }
+  return tasks;
+}
+
+/** Every pending or active task in the registry; callers group them by owner. */
+export async function fetchActiveTasks(chain: ChainGateway): Promise<AutomationTaskInfo[]> {
+  const [taskIds] = await chain.view(`${AUTOMATION_REGISTRY}::get_active_task_ids`, [], []);
+  return fetchTaskDetails(chain, taskIds ?? []);
+}
@@ -0,0 +1,163 @@
+import { SupraClient, HexString, TxnBuilderTypes, BCS } from 'supra-l1-sdk';
+import { TransactionConfirmation } from './types';
+import { TransactionSigner } from './signer';
+
+export const SUPRA_COIN_TYPE = '0x1::supra_coin::SupraCoin';
+
+export interface EntryFunctionCall {
+  moduleAddress: string;
+  moduleName: string;
+  functionName: string;
+  typeArgs: TxnBuilderTypes.TypeTag[];
+  args: Uint8Array[];
+}
+
+export interface AutomationRegistrationParams {
+  maxGasAmount: bigint;
+  gasPriceCap: bigint;
+  feeCapForEpoch: bigint;
+  expirationTimestampSecs: bigint;
+}
+
+export interface ChainEvent {
+  type: string;
+  data: any;
+  blockHeight: number;
+}
+
+export interface ChainGateway {
+  getAccountInfo(address: string): Promise<{ sequenceNumber: bigint }>;
+  getCoinBalance(address: string, coinType?: string): Promise<bigint>;
+  /** Vector arguments are passed as arrays of their items' string form. */
+  view(functionId: string, typeArgs: string[], args: Array<string | string[]>): Promise<any[]>;
+  buildTransaction(sender: string, sequenceNumber: bigint, call: EntryFunctionCall): Promise<Uint8Array>;
+  buildAutomationRegistration(
+    sender: string,
+    sequenceNumber: bigint,
+    call: EntryFunctionCall,
+    automation: AutomationRegistrationParams
+  ): Promise<Uint8Array>;
+  submitTransaction(signer: TransactionSigner, serializedTx: Uint8Array): Promise<string>;
+  getTransaction(sender: string, txHash: string): Promise<TransactionConfirmation | null>;
+  getLatestBlockHeight(): Promise<number>;
+  getEvents(eventType: string, fromHeight: number, toHeight: number): Promise<ChainEvent[]>;
+}
+
+const EVENT_PAGE_BLOCKS = 5000;
+
+export class SupraClientGateway implements ChainGateway {
+  constructor(private client: SupraClient) {}
+
+  async getAccountInfo(address: string): Promise<{ sequenceNumber: bigint }> {
+    const info = await this.client.getAccountInfo(new HexString(address));
+    return { sequenceNumber: BigInt(info.sequence_number) };
+  }
+
+  getCoinBalance(address: string, coinType: string = SUPRA_COIN_TYPE): Promise<bigint> {
+    return this.client.getAccountCoinBalance(new HexString(address), coinType);
+  }
+
+  async view(functionId: string, typeArgs: string[], args: Array<string | string[]>): Promise<any[]> {
+    // The RPC takes view arguments as JSON values, so vectors go through as arrays despite the SDK's string typing.
+    const result = await this.client.invokeViewMethod(functionId, typeArgs, args as string[]);
+    return Array.isArray(result) ? result : [result];
+  }
+
+  buildTransaction(sender: string, sequenceNumber: bigint, call: EntryFunctionCall): Promise<Uint8Array> {
+    return this.client.createSerializedRawTxObject(
+      new HexString(sender),
+      sequenceNumber,
+      call.moduleAddress.replace('0x', ''),
+      call.moduleName,
+      call.functionName,
+      call.typeArgs,
+      call.args
+    );
+  }
+
+  async buildAutomationRegistration(
+    sender: string,
+    sequenceNumber: bigint,
+    call: EntryFunctionCall,
+    automation: AutomationRegistrationParams
+  ): Promise<Uint8Array> {
+    return this.client.createSerializedAutomationRegistrationTxPayloadRawTxObject(
+      new HexString(sender),
+      sequenceNumber,
+      call.moduleAddress.replace('0x', ''),
+      call.moduleName,
+      call.functionName,
+      call.typeArgs,
+      call.args,
+      automation.maxGasAmount,
+      automation.gasPriceCap,
+      automation.feeCapForEpoch,
+      automation.expirationTimestampSecs,
+      []
+    );
+  }
+
+  async submitTransaction(signer: TransactionSigner, serializedTx: Uint8Array): Promise<string> {
+    const rawTxn = TxnBuilderTypes.RawTransaction.deserialize(new BCS.Deserializer(serializedTx));
+    const signature = await signer.signMessage(SupraClient.getSupraTransactionSignatureMessage(rawTxn));
+    const result: any = await this.client.sendTxUsingSerializedRawTransactionAndSignature(
+      new HexString(signer.publicKey),
+      HexString.fromUint8Array(signature),
+      serializedTx
+    );
+    if (result?.txHash) return result.txHash;
+    if (result?.hash) return result.hash;
+    if (result?.transaction_hash) return result.transaction_hash;
+    if (typeof result === 'string' && result.startsWith('0x')) return result;
+    throw new Error(`No valid transaction hash found in result: ${JSON.stringify(result)}`);
+  }
+
+  async getTransaction(sender: string, txHash: string): Promise<TransactionConfirmation | null> {
+    const detail = await this.client.getTransactionDetail(new HexString(sender), txHash);
+    if (!detail) return null;
+    return {
+      txHash,
+      status: detail.status,
+      vmStatus: detail.vm_status,
+      gasUsed: BigInt(detail.gasUsed ?? 0),
+      fee: BigInt(detail.transactionCost ?? (detail.gasUsed ?? 0) * detail.gasUnitPrice),
+      events: Array.isArray(detail.events) ? detail.events : []
+    };
+  }
+
+  async getLatestBlockHeight(): Promise<number> {
+    const block = await this.request('/rpc/v1/block');
+    const height = block?.header?.height ?? block?.height ?? block?.block_height;
+    if (height === undefined) {
+      throw new Error('Latest block height not found in RPC response');
+    }
+    return Number(height);
+  }
+
+  async getEvents(eventType: string, fromHeight: number, toHeight: number): Promise<ChainEvent[]> {
+    const events: ChainEvent[] = [];
+    for (let start = fromHeight; start <= toHeight; start += EVENT_PAGE_BLOCKS) {
+      const end = Math.min(start + EVENT_PAGE_BLOCKS, toHeight + 1);
+      const response = await this.request(`/rpc/v1/events/${encodeURIComponent(eventType)}?start=${start}&end=${end}`);
+      const items = response?.data ?? response?.events ?? (Array.isArray(response) ? response : []);
+      for (const item of items) {
+        const event = item.event ?? item;
+        events.push({
+          type: event.type ?? eventType,
+          data: event.data ?? {},
+          blockHeight: Number(item.block_height ?? item.height ?? start)
+        });
+      }
+    }
+    return events;
+  }
+
+  private async request(path: string): Promise<any> {
+    const response = await fetch(`${this.client.supraNodeURL}${path}`);
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`RPC request ${path} failed with status ${response.status}`);
+    }
+    return response.json();
+  }
+}
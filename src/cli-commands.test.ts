@@ -0,0 +1,66 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { EXIT_CODES, parseArgs, runCommand } from './cli-commands';
+import { JsonFileKeystore } from './keystore';
+
+describe('parseArgs', () => {
+  it('takes the first bare argument as the command, wherever the switches are', () => {
+    expect(parseArgs(['--dry-run', 'create', '--name', 'Ops', '--json'])).toEqual({
+      command: 'create',
+      positionals: [],
+      flags: { 'dry-run': true, name: 'Ops', json: true }
+    });
+  });
+
+  it('keeps switches from consuming the next argument', () => {
+    expect(parseArgs(['--json', 'cancel', 'auto_topup_1'])).toEqual({ command: 'cancel', positionals: ['auto_topup_1'], flags: { json: true } });
+  });
+
+  it('reads inline values and treats a trailing option as a flag', () => {
+    expect(parseArgs(['analytics', '--timeframe=7d', '--account'])).toEqual({
+      command: 'analytics',
+      positionals: [],
+      flags: { timeframe: '7d', account: true }
+    });
+  });
+});
+
+describe('runCommand', () => {
+  const env = { ...process.env };
+  const stdinIsTTY = process.stdin.isTTY;
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'super-agent-cli-'));
+    process.env.SUPRA_KEYSTORE = path.join(dir, 'keystore.json');
+    delete process.env.SUPRA_KEYSTORE_PASSPHRASE;
+    delete process.env.SUPRA_PRIVATE_KEY;
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    process.env = { ...env };
+    process.stdin.isTTY = stdinIsTTY;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('exits with the usage code for unknown commands and missing options', async () => {
+    expect(await runCommand(['--help'])).toBe(EXIT_CODES.OK);
+    expect(await runCommand(['launch'])).toBe(EXIT_CODES.USAGE);
+    expect(await runCommand(['create', '--target', '0x1'])).toBe(EXIT_CODES.USAGE);
+    expect(await runCommand(['keys', 'create'])).toBe(EXIT_CODES.USAGE);
+  });
+
+  it('fails instead of waiting for a passphrase when input is not a terminal', async () => {
+    await new JsonFileKeystore(process.env.SUPRA_KEYSTORE!).create('ops', 'correct horse battery');
+    process.stdin.isTTY = false;
+
+    expect(await runCommand(['list', '--json'])).toBe(EXIT_CODES.INIT_FAILED);
+    expect(await runCommand(['keys', 'create', 'treasury'])).toBe(EXIT_CODES.OPERATION_FAILED);
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('set SUPRA_KEYSTORE_PASSPHRASE'));
+  });
+});
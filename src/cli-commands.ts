@@ -0,0 +1,392 @@
+import { Console } from 'console';
+import chalk from 'chalk';
+import { SupraSuperAgent, createSuperAgent } from './super-agent';
+import { DEFAULT_KEYSTORE_PATH, JsonFileKeystore } from './keystore';
+import { promptSecret } from './secret-prompt';
+import {
+  AnalyticsResult,
+  CancelStrategyResult,
+  CheckStatusResult,
+  CreateStrategyRequest,
+  CreateStrategyResult,
+  ListAccountsResult,
+  ListStrategiesResult,
+  ReconcileResult,
+  RenewStrategyResult,
+  ScheduledTransferToolArgs,
+  SweepExcessToolArgs
+} from './api-types';
+
+export const EXIT_CODES = {
+  OK: 0,
+  OPERATION_FAILED: 1,
+  USAGE: 2,
+  INIT_FAILED: 3
+};
+
+export const SUBCOMMANDS = ['create', 'schedule', 'sweep', 'list', 'cancel', 'renew', 'status', 'analytics', 'sync', 'accounts', 'keys'];
+
+// Flags that never take a value, so they may precede the command: `super-agent --dry-run create ...`.
+const SWITCHES = ['json', 'dry-run', 'help'];
+
+interface ParsedArgs {
+  command: string;
+  positionals: string[];
+  flags: Record<string, string | boolean>;
+}
+
+const USAGE = `Usage: super-agent <command> [options]
+
+Commands:
+  create --name <name> --target <0x...> [--threshold <amount>] [--topup <amount>] [--coin <type>] [--account <name>]
+         [--lifetime <hours>]
+  schedule --name <name> --to <0x...> --amount <amount> [--every hourly|daily|weekly] [--interval-hours <hours>]
+           [--start <date>] [--end <date>] [--max-payments <n>] [--coin <type>] [--account <name>] [--lifetime <hours>]
+                               Pay a recipient on a recurring interval until the end date or payment count
+  sweep --name <name> --treasury <0x...> --ceiling <amount> [--min-sweep <amount>] [--coin <type>] [--account <name>]
+        [--lifetime <hours>]
+                               Move everything above the ceiling from the funding account to the treasury
+  list                         List active strategies
+  cancel <strategyId>          Cancel a strategy and its on-chain automation task
+  renew <strategyId> [--lifetime <hours>]
+                               Re-register a strategy's automation task with a new expiry
+  status [strategyId]          Show balance and health for one or all strategies
+  analytics [--timeframe 1h|24h|7d|30d]
+  sync                         Reconcile strategies with on-chain automation tasks
+  accounts                     List funding accounts with balances
+  keys list                    List keys in the encrypted keystore
+  keys create <name>           Generate a new key and store it encrypted
+  keys import <name> [--from-env VAR]
+                               Encrypt an existing private key (prompted, or read from VAR)
+  keys export-address <name>   Print a key's address without unlocking it
+
+Options:
+  --json       Print machine-readable JSON to stdout (logs go to stderr)
+  --dry-run    Build transactions without signing or sending them
+  --coin       Coin a strategy moves, e.g. 0x1::supra_coin::SupraCoin (the default); amounts are in that coin
+
+The keystore lives at SUPRA_KEYSTORE (default ${DEFAULT_KEYSTORE_PATH}). Commands that sign ask for its
+passphrase, or read SUPRA_KEYSTORE_PASSPHRASE when set.
+
+Exit codes: 0 success, 1 operation failed, 2 usage error, 3 initialization failed`;
+
+/** The first argument that is neither a flag nor a flag's value is the command. */
+export function parseArgs(argv: string[]): ParsedArgs {
+  let command = '';
+  const positionals: string[] = [];
+  const flags: Record<string, string | boolean> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      if (command) positionals.push(arg);
+      else command = arg;
+      continue;
+    }
+    const [key, inlineValue] = arg.slice(2).split('=', 2);
+    if (inlineValue !== undefined) {
+      flags[key] = inlineValue;
+    } else if (!SWITCHES.includes(key) && argv[i + 1] !== undefined && !argv[i + 1].startsWith('--')) {
+      flags[key] = argv[++i];
+    } else {
+      flags[key] = true;
+    }
+  }
+  return { command, positionals, flags };
+}
+
+class UsageError extends Error {}
+
+function requireString(flags: Record<string, string | boolean>, name: string): string {
+  const value = flags[name];
+  if (typeof value !== 'string' || value.length === 0) {
+    throw new UsageError(`Missing required option --${name}`);
+  }
+  return value;
+}
+
+function optionalNumber(flags: Record<string, string | boolean>, name: string): number | undefined {
+  const value = flags[name];
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (typeof value !== 'string' || !Number.isFinite(parsed)) {
+    throw new UsageError(`Option --${name} must be a number`);
+  }
+  return parsed;
+}
+
+function requireNumber(flags: Record<string, string | boolean>, name: string): number {
+  requireString(flags, name);
+  return optionalNumber(flags, name)!;
+}
+
+function toJson(value: any): string {
+  return JSON.stringify(value, (_key, v) => typeof v === 'bigint' ? v.toString() : v, 2);
+}
+
+type OperationResult =
+  | CreateStrategyResult
+  | CancelStrategyResult
+  | RenewStrategyResult
+  | ListStrategiesResult
+  | CheckStatusResult
+  | AnalyticsResult
+  | ReconcileResult
+  | ListAccountsResult;
+
+type Operation = (agent: SupraSuperAgent) => Promise<OperationResult>;
+
+function prepareOperation(args: ParsedArgs): Operation {
+  const { command, positionals, flags } = args;
+  switch (command) {
+    case 'create': {
+      const request: CreateStrategyRequest = {
+        strategyName: requireString(flags, 'name'),
+        targetAddress: requireString(flags, 'target'),
+        thresholdSupra: optionalNumber(flags, 'threshold'),
+        topupAmountSupra: optionalNumber(flags, 'topup'),
+        coinType: typeof flags.coin === 'string' ? flags.coin : undefined,
+        fundingAccount: typeof flags.account === 'string' ? flags.account : undefined,
+        lifetimeHours: optionalNumber(flags, 'lifetime')
+      };
+      return agent => agent.createAutoTopupStrategy(request);
+    }
+    case 'schedule': {
+      const request: CreateStrategyRequest<ScheduledTransferToolArgs> = {
+        strategyName: requireString(flags, 'name'),
+        recipientAddress: requireString(flags, 'to'),
+        amountSupra: requireNumber(flags, 'amount'),
+        interval: typeof flags.every === 'string' ? flags.every : undefined,
+        intervalHours: optionalNumber(flags, 'interval-hours'),
+        startDate: typeof flags.start === 'string' ? flags.start : undefined,
+        endDate: typeof flags.end === 'string' ? flags.end : undefined,
+        maxPayments: optionalNumber(flags, 'max-payments'),
+        coinType: typeof flags.coin === 'string' ? flags.coin : undefined,
+        fundingAccount: typeof flags.account === 'string' ? flags.account : undefined,
+        lifetimeHours: optionalNumber(flags, 'lifetime')
+      };
+      return agent => agent.createStrategy('scheduled_transfer', request);
+    }
+    case 'sweep': {
+      const request: CreateStrategyRequest<SweepExcessToolArgs> = {
+        strategyName: requireString(flags, 'name'),
+        treasuryAddress: requireString(flags, 'treasury'),
+        ceilingSupra: requireNumber(flags, 'ceiling'),
+        minSweepSupra: optionalNumber(flags, 'min-sweep'),
+        coinType: typeof flags.coin === 'string' ? flags.coin : undefined,
+        fundingAccount: typeof flags.account === 'string' ? flags.account : undefined,
+        lifetimeHours: optionalNumber(flags, 'lifetime')
+      };
+      return agent => agent.createStrategy('sweep_excess', request);
+    }
+    case 'list':
+      return async agent => agent.listActiveStrategies();
+    case 'cancel': {
+      const strategyId = positionals[0];
+      if (!strategyId) throw new UsageError('cancel requires a strategy id');
+      return agent => agent.cancelStrategy(strategyId);
+    }
+    case 'renew': {
+      const strategyId = positionals[0];
+      if (!strategyId) throw new UsageError('renew requires a strategy id');
+      const lifetimeHours = optionalNumber(flags, 'lifetime');
+      return agent => agent.renewStrategy(strategyId, lifetimeHours);
+    }
+    case 'status':
+      return agent => agent.checkStrategyStatus(positionals[0]);
+    case 'analytics': {
+      const timeframe = typeof flags.timeframe === 'string' ? flags.timeframe : '24h';
+      return agent => agent.generateAnalytics(timeframe);
+    }
+    case 'sync':
+      return agent => agent.reconcileStrategies();
+    case 'accounts':
+      return agent => agent.listAccounts();
+    default:
+      throw new UsageError(`Unknown command: ${command}`);
+  }
+}
+
+/** Asks only on a terminal: a piped or scheduled run would otherwise wait for input that never comes. */
+async function promptPassphrase(question: string): Promise<string> {
+  if (!process.stdin.isTTY) {
+    throw new Error('Cannot ask for the keystore passphrase without a terminal: set SUPRA_KEYSTORE_PASSPHRASE');
+  }
+  return promptSecret(question);
+}
+
+async function readNewPassphrase(): Promise<string> {
+  if (process.env.SUPRA_KEYSTORE_PASSPHRASE) return process.env.SUPRA_KEYSTORE_PASSPHRASE;
+  const passphrase = await promptPassphrase('🔐 New keystore passphrase: ');
+  if (await promptPassphrase('🔐 Repeat passphrase: ') !== passphrase) {
+    throw new Error('Passphrases do not match');
+  }
+  return passphrase;
+}
+
+async function runKeysCommand(args: ParsedArgs): Promise<any> {
+  const [subcommand = 'list', name] = args.positionals;
+  const keystore = new JsonFileKeystore(process.env.SUPRA_KEYSTORE || DEFAULT_KEYSTORE_PATH);
+  const requireName = () => {
+    if (!name) throw new UsageError(`keys ${subcommand} requires a key name`);
+    return name;
+  };
+  switch (subcommand) {
+    case 'list': {
+      const keys = await keystore.list();
+      return { success: true, keystore: keystore.location, keys, count: keys.length };
+    }
+    case 'create': {
+      const keyName = requireName();
+      const key = await keystore.create(keyName, await readNewPassphrase());
+      return { success: true, key, message: `🔑 Created key "${key.name}" with address ${key.address}` };
+    }
+    case 'import': {
+      const keyName = requireName();
+      const fromEnv = typeof args.flags['from-env'] === 'string' ? args.flags['from-env'] as string : undefined;
+      const privateKey = fromEnv ? process.env[fromEnv] : await promptSecret('🔑 Private key (hex): ');
+      if (!privateKey) {
+        throw new Error(fromEnv ? `${fromEnv} is not set` : 'No private key entered');
+      }
+      const key = await keystore.importPrivateKey(keyName, privateKey, await readNewPassphrase());
+      const hint = fromEnv ? ` - you can now remove ${fromEnv} from your environment` : '';
+      return { success: true, key, message: `🔑 Imported key "${key.name}" with address ${key.address}${hint}` };
+    }
+    case 'export-address': {
+      const keyName = requireName();
+      return { success: true, name: keyName, address: await keystore.getAddress(keyName) };
+    }
+    default:
+      throw new UsageError(`Unknown keys command: ${subcommand}`);
+  }
+}
+
+function printHuman(command: string, result: any): void {
+  if (!result.success) {
+    console.log(chalk.red(`❌ ${result.message ?? result.error}`));
+    return;
+  }
+  switch (command) {
+    case 'keys':
+      if (result.keys) {
+        if (result.count === 0) console.log(chalk.gray(`No keys in ${result.keystore}`));
+        for (const k of result.keys) {
+          console.log(`${chalk.cyan(k.name)}  ${k.address}  created ${k.createdAt.toLocaleString()}`);
+        }
+      } else if (result.address) {
+        console.log(result.address);
+      } else {
+        console.log(chalk.green(result.message));
+      }
+      break;
+    case 'list':
+      if (result.count === 0) {
+        console.log(chalk.gray('No active strategies'));
+      }
+      for (const s of result.strategies) {
+        console.log(`${chalk.cyan(s.id)}  ${s.name}  [${s.fundingAccount}]  ${s.type}  ${s.parameters.target}  ${s.details}${s.expiresAt ? `, expires ${s.expiresAt.toLocaleString()}` : ''}`);
+      }
+      break;
+    case 'accounts':
+      for (const a of result.accounts) {
+        const balance = a.balanceSupra !== undefined ? `${a.balanceSupra} SUPRA` : `unknown (${a.balanceError})`;
+        console.log(`${chalk.cyan(a.name)}${a.active ? chalk.green(' (active)') : ''}  ${a.address}  ${balance}  ${a.activeStrategies} active strategies`);
+      }
+      break;
+    case 'status': {
+      const rows = result.strategy ? [result.strategy] : result.strategies;
+      for (const s of rows) {
+        const balance = s.balanceInCoin !== undefined ? `${s.balanceInCoin} ${s.coinSymbol}` : `unknown (${s.balanceError})`;
+        const { paymentsMade, nextPaymentDue, excessSupra } = s.healthStatus;
+        const schedule = paymentsMade !== undefined
+          ? `  ${paymentsMade} paid${nextPaymentDue ? `, next due ${nextPaymentDue.toLocaleString()}` : ', complete'}`
+          : '';
+        const excess = excessSupra ? `  ${excessSupra} ${s.coinSymbol} above ceiling` : '';
+        console.log(`${chalk.cyan(s.id)}  ${s.name}  ${balance}  ${s.healthStatus.status}${schedule}${excess}`);
+      }
+      if (result.summary) {
+        console.log(chalk.gray(`Overall health: ${result.summary.overallHealth}`));
+      }
+      break;
+    }
+    case 'analytics': {
+      const { overview, costs } = result.analytics;
+      console.log(chalk.bold(`Analytics (${result.analytics.timeframe})`));
+      console.log(`Executions: ${overview.executions} (${overview.failedExecutions} failed), top-ups: ${overview.topups}`);
+      const transferred = Object.entries(overview.transferredByCoin).map(([symbol, amount]) => `${amount} ${symbol}`);
+      console.log(`Transferred: ${transferred.join(', ') || '0 SUPRA'}, fees paid: ${overview.feesPaidSupra} SUPRA`);
+      if (overview.sweeps > 0) {
+        console.log(`Swept to treasury: ${overview.supraSwept} SUPRA in ${overview.sweeps} sweeps (${result.analytics.lifetime.totalSwept} SUPRA all time)`);
+      }
+      console.log(`Projected monthly spend: ${costs.totals.monthlyTotalSupra} SUPRA`);
+      if (result.analytics.unresolvedStrategyIds.length > 0) {
+        console.log(chalk.yellow(`Left out (coin metadata unavailable): ${result.analytics.unresolvedStrategyIds.join(', ')}`));
+      }
+      result.recommendations.forEach((r: string) => console.log(chalk.yellow(`• ${r}`)));
+      break;
+    }
+    default:
+      console.log(chalk.green(result.message ?? '✅ Done'));
+  }
+}
+
+export async function runCommand(argv: string[]): Promise<number> {
+  const args = parseArgs(argv);
+  const json = args.flags.json === true;
+  const write = (text: string) => process.stdout.write(`${text}\n`);
+
+  const wantsHelp = args.flags.help === true;
+  if (wantsHelp || !SUBCOMMANDS.includes(args.command)) {
+    (wantsHelp ? write : console.error)(USAGE);
+    return wantsHelp ? EXIT_CODES.OK : EXIT_CODES.USAGE;
+  }
+  // Agent progress messages would corrupt JSON on stdout, so they go to stderr instead.
+  const logger = json ? new Console(process.stderr) : console;
+
+  if (args.command === 'keys') {
+    try {
+      const result = await runKeysCommand(args);
+      if (json) write(toJson(result));
+      else printHuman(args.command, result);
+      return EXIT_CODES.OK;
+    } catch (error: any) {
+      if (json) write(toJson({ success: false, error: error.message }));
+      else console.error(chalk.red(`❌ ${error.message}`));
+      return error instanceof UsageError ? EXIT_CODES.USAGE : EXIT_CODES.OPERATION_FAILED;
+    }
+  }
+
+  let operation: Operation;
+  try {
+    operation = prepareOperation(args);
+  } catch (error: any) {
+    if (json) write(toJson({ success: false, error: error.message }));
+    else console.error(chalk.red(`❌ ${error.message}`));
+    console.error(USAGE);
+    return EXIT_CODES.USAGE;
+  }
+
+  let agent: SupraSuperAgent;
+  try {
+    agent = await createSuperAgent({
+      mode: args.flags['dry-run'] ? 'dry-run' : 'live',
+      enableChat: false,
+      logger,
+      keystorePassphrase: () => promptPassphrase('🔐 Keystore passphrase: ')
+    });
+  } catch (error: any) {
+    if (json) write(toJson({ success: false, error: error.message }));
+    else console.error(chalk.red('❌ Initialization failed:'), error.message);
+    return EXIT_CODES.INIT_FAILED;
+  }
+
+  try {
+    const result = await operation(agent);
+    if (json) write(toJson(result));
+    else printHuman(args.command, result);
+    return result.success ? EXIT_CODES.OK : EXIT_CODES.OPERATION_FAILED;
+  } catch (error: any) {
+    if (json) write(toJson({ success: false, error: error.message }));
+    else console.error(chalk.red(`❌ ${error.message}`));
+    return EXIT_CODES.OPERATION_FAILED;
+  }
+}
@@ -1,7 +1,15 @@
+#!/usr/bin/env node
+import fs from 'fs';
 import readline from 'readline';
 import chalk from 'chalk';
 import dotenv from 'dotenv';
 import { SupraSuperAgent, createSuperAgent } from './super-agent';
+import { PendingAction } from './api-types';
+import { formatCoinAmount } from './coin-metadata';
+import { JsonFileSessionStore, defaultSessionName, isValidSessionName } from './session-store';
+import { SUBCOMMANDS, parseArgs, runCommand } from './cli-commands';
+import { DEFAULT_KEYSTORE_PATH } from './keystore';
+import { MutableOutput, promptSecret } from './secret-prompt';
 dotenv.config();
 interface CLIState {
   agent: SupraSuperAgent | null;
@@ -10,24 +18,32 @@ interface CLIState {
   startTime: Date;
   lastCommand: string;
   notifications: string[];
+  sessionName: string;
+  sessionCreatedAt: Date;
 }
 
 class SuperAgentCLI {
   private agent: SupraSuperAgent | null = null;
   private rl: readline.Interface;
+  private output = new MutableOutput();
   private state: CLIState = {
     agent: null,
     isInitialized: false,
     commandCount: 0,
     startTime: new Date(),
     lastCommand: '',
-    notifications: []
+    notifications: [],
+    sessionName: defaultSessionName(),
+    sessionCreatedAt: new Date()
   };
+  private sessionStore = new JsonFileSessionStore(process.env.SUPRA_SESSION_DIR || '.supra-agent/sessions');
+  private shuttingDown = false;
 
-  constructor() {
+  constructor(private options: { dryRun?: boolean } = {}) {
     this.rl = readline.createInterface({
       input: process.stdin,
-      output: process.stdout,
+      output: this.output,
+      terminal: process.stdout.isTTY,
       prompt: this.getPrompt()
     });
     this.setupSignalHandlers();
@@ -36,16 +52,24 @@ class SuperAgentCLI {
     this.showWelcomeMessage();
      try {
       console.log(chalk.bgGreen.bold('Initializing Supra Super Agent...'));  
-      this.agent = await createSuperAgent();
+      this.agent = await createSuperAgent({
+        mode: this.options.dryRun ? 'dry-run' : 'live',
+        keystorePassphrase: () => promptSecret(chalk.cyan('🔐 Keystore passphrase: '), { rl: this.rl, output: this.output })
+      });
       this.state.agent = this.agent;
       this.state.isInitialized = true;
       this.setupAgentEventListeners();      
+      await this.resumeLastSession();
+      await this.syncWithChain(true);
+      if (this.options.dryRun) {
+        console.log(chalk.yellow('🧪 DRY-RUN mode: transactions are built and shown, never signed or sent'));
+      }
       console.log(chalk.green('✅ Agent ready! Start chatting about auto top-up strategies\n'));
       this.showQuickHelp();    } catch (error) {
       console.error(chalk.red('❌ Initialization failed:'), error instanceof Error ? error.message : error);
       console.log(chalk.yellow('\n🔧 Troubleshooting tips:'));
       console.log(chalk.gray('  • Check your .env file exists and has all required variables'));
-      console.log(chalk.gray('  • Verify your SUPRA_PRIVATE_KEY is valid (64 hex characters)'));
+      console.log(chalk.gray('  • Verify your keystore passphrase, or that SUPRA_PRIVATE_KEY is valid (64 hex characters)'));
       console.log(chalk.gray('  • Ensure you have sufficient SUPRA balance (min 1000 SUPRA)'));
       console.log(chalk.gray('  • Check your internet connection'));
       
@@ -59,6 +83,8 @@ class SuperAgentCLI {
 ╚═════════════════════════════════════════════╝
     `));
     console.log(chalk.magenta.bold('- Create intelligent auto top-up strategies'));
+    console.log(chalk.magenta.bold('- Schedule recurring transfers'));
+    console.log(chalk.magenta.bold('- Sweep excess funds back to a treasury'));
     console.log(chalk.magenta.bold('- Monitor performance with real-time analytics'));
     console.log(chalk.magenta.bold('- Secure automation on Supra MoveVM\n'));
   }
@@ -83,8 +109,44 @@ class SuperAgentCLI {
     this.agent.on('strategyError', (data) => {
       this.addNotification(`❌ Strategy creation failed: ${data.error.message}`);
     });
-    this.agent.on('lowBalanceAlert', (data) => {
-      this.addNotification(`⚠️ Low balance alert for strategy: ${data.strategy.name}`);
+    this.agent.on('balanceAlert', (data) => {
+      this.addNotification(`⚠️ ${data.strategy.name}: ${data.message}`);
+    });
+    this.agent.on('strategyCancelled', (data) => {
+      this.addNotification(`🛑 Strategy "${data.strategy.name}" cancelled on-chain (tx ${data.strategy.cancelTxHash})`);
+    });
+    this.agent.on('strategyCancelFailed', (data) => {
+      this.addNotification(`❌ Cancellation of "${data.strategy.name}" was rejected by the chain - task still running`);
+    });
+    this.agent.on('topupExecuted', (data) => {
+      this.addNotification(`💸 "${data.strategy.name}" topped up ${formatCoinAmount(data.execution.amount, data.coin)}`);
+    });
+    this.agent.on('excessSwept', (data) => {
+      this.addNotification(`🧹 "${data.strategy.name}" swept ${formatCoinAmount(data.execution.amount, data.coin)} to the treasury`);
+    });
+    this.agent.on('scheduledTransferExecuted', (data) => {
+      this.addNotification(`📅 "${data.strategy.name}" paid ${formatCoinAmount(data.execution.amount, data.coin)} (payment #${data.execution.executionCount})`);
+    });
+    this.agent.on('executionFailed', (data) => {
+      this.addNotification(`❌ "${data.strategy.name}" execution failed: ${data.execution.action}`);
+    });
+    this.agent.on('strategyOutOfSync', (data) => {
+      this.addNotification(`🔌 Strategy "${data.strategy.name}" is no longer active on-chain (${data.strategy.chainStatus})`);
+    });
+    this.agent.on('strategyRenewed', (data) => {
+      this.addNotification(`🔁 "${data.strategy.name}" renewed as task #${data.strategy.taskId ?? '?'} until ${data.strategy.expiresAt.toLocaleString()}`);
+    });
+    this.agent.on('renewalFailed', (data) => {
+      this.addNotification(`❌ Renewal of "${data.strategy.name}" failed: ${data.error.message}`);
+    });
+    this.agent.on('expiryWarning', (data) => {
+      this.addNotification(`⌛ "${data.strategy.name}" expires in ${data.hoursLeft.toFixed(1)}h - ask the agent to renew it`);
+    });
+    this.agent.on('strategyExpired', (data) => {
+      this.addNotification(`⌛ Strategy "${data.strategy.name}" expired on-chain and is no longer active`);
+    });
+    this.agent.on('actionPending', (data) => {
+      this.showPendingAction(data.action);
     });
     this.agent.on('conversationError', (data) => {
       console.log(chalk.red('- AI Error: '), data.error.message);
@@ -93,7 +155,11 @@ class SuperAgentCLI {
   private getPrompt(): string {
     const statusIcon = this.state.isInitialized ? '🤖' : '⏳';
     const commandNum = this.state.commandCount > 0 ? `[${this.state.commandCount}] ` : '';
-    return chalk.cyan(`${statusIcon} ${commandNum}YOU > `);
+    const modeTag = this.options.dryRun ? chalk.yellow('[DRY-RUN] ') : '';
+    const pendingCount = this.agent?.getPendingActions().length ?? 0;
+    const pendingTag = pendingCount > 0 ? chalk.magenta(`[${pendingCount} pending] `) : '';
+    const accountTag = this.agent ? chalk.blue(`[${this.agent.getActiveAccount().name}] `) : '';
+    return modeTag + accountTag + pendingTag + chalk.cyan(`${statusIcon} ${commandNum}YOU > `);
   }
   private addNotification(message: string) {
     this.state.notifications.push(message);
@@ -114,6 +180,7 @@ class SuperAgentCLI {
       }      this.state.commandCount++;
       this.state.lastCommand = message;
       await this.handleUserInput(message);
+      await this.saveSession();
       this.updatePrompt();
       this.rl.prompt();
     });
@@ -156,6 +223,10 @@ class SuperAgentCLI {
       case 'create':
         await this.handleQuickCreate();
         break;
+      case 'sync':
+      case 'reconcile':
+        await this.syncWithChain(false);
+        break;
       case 'notifications':
       case 'alerts':
         this.showNotifications();
@@ -164,6 +235,28 @@ class SuperAgentCLI {
       case 'metrics':
         this.showPerformanceMetrics();
         break;
+      case 'confirm':
+      case 'approve':
+        await this.confirmPendingAction(input.split(' ')[1]);
+        break;
+      case 'reject':
+      case 'deny':
+        this.rejectPendingAction(input.split(' ')[1]);
+        break;
+      case 'account':
+      case 'accounts':
+        await this.handleAccountCommand(input.split(/\s+/).slice(1));
+        break;
+      case 'session':
+        await this.handleSessionCommand(input.split(/\s+/).slice(1));
+        break;
+      case 'reset':
+        this.agent?.resetConversation();
+        console.log(chalk.green('🧹 Conversation history cleared - strategies are unchanged'));
+        break;
+      case 'pending':
+        this.agent?.getPendingActions().forEach(action => this.showPendingAction(action));
+        break;
       default:
         await this.chatWithAgent(input);
         break;
@@ -255,6 +348,182 @@ class SuperAgentCLI {
     }
   }
 
+  private async resumeLastSession() {
+    try {
+      const lastName = await this.sessionStore.getLastSessionName();
+      if (lastName && await this.loadSession(lastName)) {
+        console.log(chalk.gray(`💾 Resumed session "${lastName}" - type "session new" to start fresh`));
+      }
+    } catch (error) {
+      console.warn(chalk.yellow('⚠️ Could not resume the last session:'), error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private async loadSession(name: string): Promise<boolean> {
+    const session = await this.sessionStore.load(name);
+    if (!session) return false;
+    this.agent?.importConversation(session.conversation);
+    this.state.sessionName = session.name;
+    this.state.sessionCreatedAt = session.createdAt;
+    this.state.notifications = session.notifications;
+    this.state.commandCount = session.commandCount;
+    return true;
+  }
+
+  private async saveSession() {
+    if (!this.agent) return;
+    try {
+      await this.sessionStore.save({
+        name: this.state.sessionName,
+        createdAt: this.state.sessionCreatedAt,
+        updatedAt: new Date(),
+        conversation: this.agent.exportConversation(),
+        notifications: this.state.notifications,
+        commandCount: this.state.commandCount
+      });
+    } catch (error) {
+      console.warn(chalk.yellow('⚠️ Could not save session:'), error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private async handleSessionCommand(args: string[]) {
+    const [subcommand = 'list', name] = args;
+    try {
+      switch (subcommand) {
+        case 'list': {
+          const sessions = await this.sessionStore.list();
+          console.log(chalk.cyan('\n💾 Saved sessions:'));
+          if (sessions.length === 0) {
+            console.log(chalk.gray('   No saved sessions'));
+          }
+          sessions.forEach(s => {
+            const marker = s.name === this.state.sessionName ? chalk.green(' (current)') : '';
+            console.log(`   ${chalk.cyan(s.name)}${marker}  ${s.turns} turns, ${s.commandCount} commands, updated ${s.updatedAt.toLocaleString()}`);
+          });
+          console.log('');
+          break;
+        }
+        case 'load':
+          if (!name) {
+            console.log(chalk.yellow('Usage: session load <name>'));
+            break;
+          }
+          await this.saveSession();
+          if (await this.loadSession(name)) {
+            console.log(chalk.green(`💾 Loaded session "${name}"`));
+          } else {
+            console.log(chalk.red(`❌ No session named "${name}"`));
+          }
+          break;
+        case 'new': {
+          const newName = name ?? defaultSessionName();
+          if (!isValidSessionName(newName)) {
+            console.log(chalk.red(`❌ Invalid session name "${newName}": use letters, digits, "-" or "_" (max 64 characters)`));
+            break;
+          }
+          if (newName === this.state.sessionName || await this.sessionStore.load(newName)) {
+            console.log(chalk.red(`❌ Session "${newName}" already exists - use \`session load ${newName}\` to continue it`));
+            break;
+          }
+          await this.saveSession();
+          this.agent?.resetConversation();
+          this.state.sessionName = newName;
+          this.state.sessionCreatedAt = new Date();
+          this.state.notifications = [];
+          this.state.commandCount = 0;
+          console.log(chalk.green(`💾 Started session "${this.state.sessionName}"`));
+          break;
+        }
+        default:
+          console.log(chalk.yellow('Usage: session list | session load <name> | session new [name]'));
+      }
+    } catch (error) {
+      console.error(chalk.red('❌ Session command failed:'), error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private async handleAccountCommand(args: string[]) {
+    if (!this.agent) return;
+    const [subcommand = 'list', name] = args;
+    switch (subcommand) {
+      case 'list': {
+        const result = await this.agent.listAccounts();
+        console.log(chalk.cyan('\n💳 Funding accounts:'));
+        result.accounts.forEach(a => {
+          const marker = a.active ? chalk.green(' (active)') : '';
+          const balance = a.balanceSupra !== undefined ? `${a.balanceSupra} SUPRA` : chalk.red(`balance unavailable: ${a.balanceError}`);
+          console.log(`   ${chalk.cyan(a.name)}${marker}  ${a.address}`);
+          console.log(chalk.gray(`      ${balance}, ${a.activeStrategies} active strategies`));
+        });
+        console.log('');
+        break;
+      }
+      case 'use': {
+        if (!name) {
+          console.log(chalk.yellow('Usage: account use <name>'));
+          break;
+        }
+        const result = this.agent.useAccount(name);
+        console.log(result.success ? chalk.green(result.message) : chalk.red(`❌ ${result.message}`));
+        break;
+      }
+      default:
+        console.log(chalk.yellow('Usage: account list | account use <name>'));
+    }
+  }
+
+  private showPendingAction(action: PendingAction) {
+    const s = action.summary;
+    console.log(chalk.magenta.bold(`\n⏸️  Awaiting confirmation: ${s.action} (${action.id})`));
+    console.log(chalk.white(`   Funded by:       ${s.fundingAccount}`));
+    console.log(chalk.white(`   Target:          ${s.target}`));
+    if (s.taskId !== undefined) console.log(chalk.white(`   Automation task: #${s.taskId}`));
+    console.log(chalk.white(`   Strategy type:   ${s.strategyType}`));
+    console.log(chalk.white(`   Parameters:      ${s.details}`));
+    if (s.automationFeeCapSupra !== undefined) console.log(chalk.white(`   Fee cap:         ${s.automationFeeCapSupra} SUPRA`));
+    if (s.expiresAt) console.log(chalk.white(`   Expires:         ${s.expiresAt.toLocaleString()}`));
+    if (s.estimatedMonthlyCostSupra !== undefined) console.log(chalk.white(`   Est. monthly:    ${s.estimatedMonthlyCostSupra} SUPRA`));
+    console.log(chalk.gray(`   Type ${chalk.cyan(`confirm ${action.id}`)} to sign and send, or ${chalk.cyan(`reject ${action.id}`)} to discard`));
+  }
+
+  private async confirmPendingAction(actionId?: string) {
+    if (!this.agent) return;
+    const pending = this.agent.getPendingActions();
+    if (!actionId && pending.length > 1) {
+      console.log(chalk.yellow(`⚠️ ${pending.length} actions are pending - confirm them one at a time:`));
+      pending.forEach(action => console.log(chalk.gray(`   • ${action.id}: ${action.summary.action}`)));
+      return;
+    }
+    console.log(chalk.blue('✍️ Signing and sending...'));
+    try {
+      const result = await this.agent.confirmAction(actionId);
+      console.log(result.success ? chalk.green(result.message) : chalk.red(result.message));
+    } catch (error: any) {
+      console.log(chalk.red(`❌ Confirmation failed: ${error.message}`));
+    }
+  }
+
+  private rejectPendingAction(actionId?: string) {
+    if (!this.agent) return;
+    const result = this.agent.rejectAction(actionId);
+    console.log(result.success ? chalk.yellow(result.message) : chalk.red(result.message));
+  }
+
+  private async syncWithChain(quiet: boolean) {
+    if (!this.agent) return;
+    if (!quiet) console.log(chalk.blue('🔗 Reconciling strategies with the automation registry...'));
+    const result = await this.agent.reconcileStrategies();
+    if (!result.success) {
+      console.log(chalk.yellow(`⚠️ Reconciliation failed: ${result.error}`));
+      return;
+    }
+    if (quiet && result.linked.length + result.imported.length + result.flagged.length === 0) return;
+    console.log(chalk.green(result.message));
+    result.linked.forEach((l: any) => console.log(chalk.gray(`   • ${l.strategyId}: linked to task #${l.taskId}`)));
+    result.imported.forEach((i: any) => console.log(chalk.gray(`   • Imported task #${i.taskId} for ${i.target}`)));
+    result.flagged.forEach((f: any) => console.log(chalk.yellow(`   • ${f.name}: ${f.chainStatus} on-chain${f.deactivated ? ', marked inactive' : ' - still tracked until the task is confirmed cancelled or expired'}`)));
+  }
+
   private showNotifications() {
     console.log(chalk.yellow('\n📢 Recent Notifications:'));  
     if (this.state.notifications.length === 0) {
@@ -290,8 +559,8 @@ class SuperAgentCLI {
 📖 SUPRA AutoFi Agent - Detailed Help
 ${chalk.bold('AUTO TOP-UP STRATEGY:')}
 Automatically maintains minimum balance in your wallets:
-• Threshold: 600 SUPRA (triggers when balance drops below)
-• Top-up Amount: 50 SUPRA (transferred to maintain balance)
+• Threshold: 600 SUPRA by default (triggers when balance drops below)
+• Top-up Amount: 50 SUPRA by default (transferred to maintain balance)
 • Monitoring: Real-time blockchain monitoring
 • Execution: Instant when threshold is reached
 
@@ -299,6 +568,25 @@ ${chalk.cyan('Strategy Creation:')}
   • "Create auto top-up for my trading wallet 0x123..."
   • "Set up automation for wallet 0xabc... for gas fees"
   • "I need auto top-up for my DeFi operations wallet"
+  • "Top up 0xdef... with 200 SUPRA whenever it drops below 1500 SUPRA"
+
+${chalk.bold('SCHEDULED TRANSFERS:')}
+Pays a fixed amount to a recipient on a recurring interval. The contract enforces the
+interval on-chain, and the schedule stops at its end date or after a number of payments.
+  • "Pay 0xabc... 25 SUPRA every week until the end of the year"
+  • "Send 10 SUPRA daily to 0xdef... for 30 payments"
+  • "When is the next payment of my rent schedule due?"
+
+${chalk.bold('EXCESS SWEEPS:')}
+The opposite of a top-up: everything above a ceiling is moved from the funding account to
+a treasury address, once the excess reaches the minimum sweep amount.
+  • "Sweep anything above 5000 SUPRA from the desk_a account to 0xabc..."
+  • "How far above its ceiling is my hot wallet?"
+
+${chalk.bold('OTHER COINS:')}
+Every strategy moves SUPRA unless given a coin type; amounts are then in that coin and
+automation fees are still paid in SUPRA.
+  • "Keep 0xabc... above 500 USDC, coin 0x...::usdc::USDC, topping up 200 at a time"
 
   ${chalk.cyan('Monitoring & Analytics:')}
   • "Show me my strategy performance"
@@ -308,6 +596,7 @@ ${chalk.cyan('Strategy Creation:')}
 
 ${chalk.cyan('Management:')}
   • "Cancel the strategy for wallet 0x456..."
+  • "Renew my trading wallet strategy for another 48 hours"
   • "List all my active strategies"
   • "Show me analytics for the past month"
 
@@ -317,16 +606,27 @@ ${chalk.cyan('analytics')}     - Show performance dashboard
 ${chalk.cyan('health')}        - Run comprehensive health check
 ${chalk.cyan('status')}        - Check all strategy statuses
 ${chalk.cyan('strategies')}    - List active strategies
+${chalk.cyan('sync')}          - Reconcile strategies with on-chain tasks
+${chalk.cyan('pending')}       - Show actions awaiting confirmation
+${chalk.cyan('confirm [id]')}  - Sign and send a pending create/renew/cancel action
+${chalk.cyan('reject [id]')}   - Discard a pending action
 ${chalk.cyan('notifications')} - Show recent alerts
 ${chalk.cyan('performance')}   - Show system metrics
 ${chalk.cyan('clear')}         - Clear screen and show quick help
+${chalk.cyan('reset')}         - Forget the conversation so far (strategies are kept)
+${chalk.cyan('account list')}  - Show funding accounts and their balances
+${chalk.cyan('account use')}   - Fund new strategies from another account
+${chalk.cyan('session list')}  - Show saved chat sessions
+${chalk.cyan('session load')}  - Resume a saved session by name
+${chalk.cyan('session new')}   - Start a fresh session (optionally named)
 ${chalk.cyan('help')}          - Show this detailed help
 ${chalk.cyan('exit')}          - Quit the agent
 
 ${chalk.bold('🔧 STRATEGY PARAMETERS:')}
-• Threshold: 600 SUPRA (automatic - when to trigger)
-• Top-up: 50 SUPRA (automatic - how much to transfer)
-• You provide: Target wallet address and strategy name
+• Threshold: when to trigger (default 600 SUPRA, set per strategy)
+• Top-up: how much to transfer (default 50 SUPRA, set per strategy)
+• Lifetime: hours until the automation task expires (default 24, renewed before expiry while the agent runs)
+• You provide: Target wallet address and strategy name, optionally threshold, top-up, lifetime and funding account
 • Agent handles: All technical setup and monitoring
 
 ${chalk.bold('💡 TIPS:')}
@@ -334,7 +634,7 @@ ${chalk.bold('💡 TIPS:')}
 • Use wallet addresses starting with 0x followed by 64 hex characters
 • Keep at least 1000 SUPRA in your main account for automation fees
 • Monitor your strategies regularly with 'health' or 'analytics'
-• Each strategy costs ~0.005 SUPRA per execution
+• Ask for analytics to see each strategy's projected monthly fees and top-up spend
 
 ${chalk.bold('🚨 EMERGENCY:')}
 If you need to stop all automation immediately, type: "emergency stop all strategies"
@@ -363,7 +663,10 @@ If you need to stop all automation immediately, type: "emergency stop all strate
     this.rl.setPrompt(this.getPrompt());
   }
 
-  private shutdown() {
+  private async shutdown() {
+    if (this.shuttingDown) return;
+    this.shuttingDown = true;
+    await this.saveSession();
     const sessionTime = Math.floor((Date.now() - this.state.startTime.getTime()) / 1000);    
     console.log(chalk.cyan('\n🎉 Thank you for using SUPRA AutoFi Agent!'));
     console.log(chalk.gray('Session Summary:'));
@@ -375,7 +678,14 @@ If you need to stop all automation immediately, type: "emergency stop all strate
       console.log(chalk.gray(`   • Strategies created: ${metrics.totalStrategiesCreated}`));
       console.log(chalk.gray(`   • Active strategies: ${metrics.activeStrategies}`));
     }    
-    console.log(chalk.gray('\n💡 Your automation strategies continue running on Supra Network'));
+    const expiries = (this.agent?.listActiveStrategies().strategies ?? [])
+      .map(s => s.expiresAt?.getTime())
+      .filter((t): t is number => t !== undefined);
+    if (expiries.length > 0) {
+      console.log(chalk.gray(`\n💡 Your automation tasks keep running on Supra Network until they expire - the next one on ${new Date(Math.min(...expiries)).toLocaleString()}`));
+      console.log(chalk.gray('   Tasks are only renewed while the agent is running: restart it before then to keep them alive'));
+    }
+    console.log(chalk.gray(`💾 Conversation saved as session "${this.state.sessionName}"`));
     console.log(chalk.gray('🔄 Restart anytime with: npm start'));
     process.exit(0);
   }
@@ -383,8 +693,8 @@ If you need to stop all automation immediately, type: "emergency stop all strate
 
 function checkConfiguration() {
   const requiredEnvVars = [
-    'OPENAI_API_KEY',
-    'SUPRA_PRIVATE_KEY', 
+    ...(process.env.LLM_BASE_URL ? [] : ['OPENAI_API_KEY']),
+    ...(fs.existsSync(process.env.SUPRA_KEYSTORE || DEFAULT_KEYSTORE_PATH) ? [] : ['SUPRA_PRIVATE_KEY']),
     'SUPRA_CONTRACT_ADDRESS'
   ];
   const missing = requiredEnvVars.filter(env => !process.env[env]);
@@ -398,7 +708,6 @@ SUPRA_PRIVATE_KEY=your_supra_private_key
 SUPRA_CONTRACT_ADDRESS=0x1c5acf62be507c27a7788a661b546224d806246765ff2695efece60194c6df05
 SUPRA_RPC_URL=https://rpc-testnet.supra.com
     `));
-        const fs = require('fs');
     if (!fs.existsSync('.env')) {
       console.log(chalk.red('\n❌ .env file not found!'));
       console.log(chalk.yellow('💡 Copy .env.example to .env and fill in your values'));
@@ -428,12 +737,16 @@ SUPRA_RPC_URL=https://rpc-testnet.supra.com
 
 // 🚀 OPTIMIZED: Enhanced main function with better error handling
 async function main() {
+  const { command, flags } = parseArgs(process.argv.slice(2));
+  if (SUBCOMMANDS.includes(command) || flags.help === true) {
+    process.exit(await runCommand(process.argv.slice(2)));
+  }
   try {
     console.log(chalk.cyan('🚀 Starting SUPRA AutoFi Agent...\n'));
     
     checkConfiguration();
     
-    const cli = new SuperAgentCLI();
+    const cli = new SuperAgentCLI({ dryRun: process.argv.includes('--dry-run') });
     await cli.start();
   } catch (error) {
     console.error(chalk.red('❌ Fatal error:'), error instanceof Error ? error.message : String(error));
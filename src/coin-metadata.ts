@@ -0,0 +1,78 @@
+import { ChainGateway, SUPRA_COIN_TYPE } from './chain-gateway';
+
+export interface CoinInfo {
+  coinType: string;
+  symbol: string;
+  decimals: number;
+}
+
+/**
+ * SupraCoin amounts have always been encoded with 6 decimals (the contract's defaults assume it),
+ * so SUPRA is not looked up: tasks registered before coin types existed must decode unchanged.
+ */
+export const SUPRA_COIN: CoinInfo = { coinType: SUPRA_COIN_TYPE, symbol: 'SUPRA', decimals: 6 };
+
+const COIN_TYPE_PATTERN = /^0x[a-fA-F0-9]{1,64}::[A-Za-z_][A-Za-z0-9_]*::[A-Za-z_][A-Za-z0-9_]*(<.+>)?$/;
+const MAX_DECIMALS = 18;
+
+export function isValidCoinType(coinType: string): boolean {
+  return COIN_TYPE_PATTERN.test(coinType);
+}
+
+/** Shortens the address part (`0x000…01::m::T` → `0x1::m::T`), the form decoded task payloads use. */
+export function normalizeCoinType(coinType: string): string {
+  const [address, ...rest] = coinType.split('::');
+  const trimmed = address.replace(/^0x0*/, '').toLowerCase();
+  return [`0x${trimmed || '0'}`, ...rest].join('::');
+}
+
+export function toBaseUnits(amount: number, coin: CoinInfo): bigint {
+  return BigInt(Math.round(amount * 10 ** coin.decimals));
+}
+
+export function fromBaseUnits(amount: bigint, coin: CoinInfo): number {
+  return Number(amount) / 10 ** coin.decimals;
+}
+
+export function formatCoinAmount(amount: bigint, coin: CoinInfo): string {
+  return `${fromBaseUnits(amount, coin)} ${coin.symbol}`;
+}
+
+/**
+ * Symbol and decimals read from `0x1::coin` and cached per coin type. Code that cannot await uses
+ * `peek` for amounts and `symbolOf` for labels, which falls back to the struct name.
+ */
+export class CoinMetadataRegistry {
+  private cache: Map<string, CoinInfo> = new Map([[SUPRA_COIN_TYPE, SUPRA_COIN]]);
+
+  constructor(private chain: ChainGateway) {}
+
+  async resolve(coinType: string = SUPRA_COIN_TYPE): Promise<CoinInfo> {
+    const key = normalizeCoinType(coinType);
+    const cached = this.cache.get(key);
+    if (cached) return cached;
+
+    let info: CoinInfo;
+    try {
+      const [decimals] = await this.chain.view('0x1::coin::decimals', [key], []);
+      const [symbol] = await this.chain.view('0x1::coin::symbol', [key], []);
+      info = { coinType: key, symbol: String(symbol), decimals: Number(decimals) };
+    } catch (error: any) {
+      throw new Error(`Could not read coin metadata for ${key}: ${error.message}`);
+    }
+    if (!Number.isInteger(info.decimals) || info.decimals < 0 || info.decimals > MAX_DECIMALS) {
+      throw new Error(`Coin ${key} reports unsupported decimals: ${info.decimals}`);
+    }
+    this.cache.set(key, info);
+    return info;
+  }
+
+  peek(coinType: string = SUPRA_COIN_TYPE): CoinInfo | undefined {
+    return this.cache.get(normalizeCoinType(coinType));
+  }
+
+  symbolOf(coinType: string = SUPRA_COIN_TYPE): string {
+    const key = normalizeCoinType(coinType);
+    return this.cache.get(key)?.symbol ?? key.split('::')[2].split('<')[0];
+  }
+}
@@ -0,0 +1,168 @@
+import { LLMMessage } from './llm-provider';
+
+export interface ConversationMemoryOptions {
+  maxTokens?: number;
+  keepRecentTurns?: number;
+  maxToolResultChars?: number;
+  summarize?: (transcript: string) => Promise<string>;
+  /** Where a failed summary is reported; defaults to the global console. */
+  logger?: Console;
+}
+
+export interface ConversationSnapshot {
+  summary: string;
+  turns: LLMMessage[][];
+  /** Highest pending-action number handed out, so restored conversations never see an id reused. */
+  actionSequence?: number;
+}
+
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const MAX_SUMMARY_CHARS = 4000;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function estimateMessageTokens(message: LLMMessage): number {
+  let text = message.content ?? '';
+  if (message.role === 'assistant' && message.toolCalls) {
+    text += message.toolCalls.map(call => call.name + call.arguments).join('');
+  }
+  return estimateTokens(text) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+function compactToolResult(content: string, maxChars: number): string {
+  if (content.length <= maxChars) return content;
+  try {
+    const result = JSON.parse(content);
+    return JSON.stringify({
+      compacted: true,
+      success: result.success,
+      error: result.error,
+      message: result.message,
+      count: result.count,
+      strategyId: result.strategyId,
+      txHash: result.txHash
+    });
+  } catch (error) {
+    return `${content.slice(0, maxChars)}… [truncated]`;
+  }
+}
+
+function describeTurn(turn: LLMMessage[]): string {
+  const lines: string[] = [];
+  for (const message of turn) {
+    if (message.role === 'user') {
+      lines.push(`User: ${message.content}`);
+    } else if (message.role === 'assistant') {
+      if (message.toolCalls?.length) {
+        lines.push(`Assistant called: ${message.toolCalls.map(call => `${call.name}(${call.arguments})`).join(', ')}`);
+      }
+      if (message.content) lines.push(`Assistant: ${message.content}`);
+    } else if (message.role === 'tool') {
+      lines.push(`Tool result: ${compactToolResult(message.content, 300)}`);
+    } else {
+      lines.push(`Note: ${message.content}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Token-bounded chat history. The system prompt is always kept; older turns are folded into a
+ * running summary once the estimate exceeds `maxTokens`, and tool results outside the most
+ * recent turns are reduced to their success/error/message fields. The per-turn state message,
+ * when given, counts toward `maxTokens` as well.
+ */
+export class ConversationMemory {
+  private systemPrompt: string = '';
+  private summary: string = '';
+  private turns: LLMMessage[][] = [];
+  private options: Required<Omit<ConversationMemoryOptions, 'summarize'>> & Pick<ConversationMemoryOptions, 'summarize'>;
+
+  constructor(options: ConversationMemoryOptions = {}) {
+    this.options = {
+      maxTokens: options.maxTokens ?? 6000,
+      keepRecentTurns: options.keepRecentTurns ?? 4,
+      maxToolResultChars: options.maxToolResultChars ?? 1500,
+      summarize: options.summarize,
+      logger: options.logger ?? console
+    };
+  }
+
+  setSystemPrompt(content: string): void {
+    this.systemPrompt = content;
+  }
+
+  append(message: LLMMessage): void {
+    if (message.role === 'user' || this.turns.length === 0) {
+      this.turns.push([]);
+    }
+    this.turns[this.turns.length - 1].push(message);
+  }
+
+  buildContext(stateMessage?: string): LLMMessage[] {
+    const messages: LLMMessage[] = [{ role: 'system', content: this.systemPrompt }];
+    if (this.summary) {
+      messages.push({ role: 'system', content: `Summary of the earlier conversation:\n${this.summary}` });
+    }
+    if (stateMessage) {
+      messages.push({ role: 'system', content: stateMessage });
+    }
+    for (const turn of this.turns) {
+      messages.push(...turn);
+    }
+    return messages;
+  }
+
+  estimateTokens(stateMessage?: string): number {
+    return this.buildContext(stateMessage).reduce((sum, message) => sum + estimateMessageTokens(message), 0);
+  }
+
+  async compact(stateMessage?: string): Promise<void> {
+    const recentStart = Math.max(0, this.turns.length - this.options.keepRecentTurns);
+    for (const turn of this.turns.slice(0, recentStart)) {
+      for (const message of turn) {
+        if (message.role === 'tool') {
+          message.content = compactToolResult(message.content, this.options.maxToolResultChars);
+        }
+      }
+    }
+
+    const folded: LLMMessage[][] = [];
+    while (this.estimateTokens(stateMessage) > this.options.maxTokens && this.turns.length > 1) {
+      folded.push(this.turns.shift()!);
+    }
+    if (folded.length === 0) return;
+
+    const transcript = folded.map(describeTurn).join('\n');
+    let addition = transcript;
+    if (this.options.summarize) {
+      try {
+        addition = await this.options.summarize(transcript);
+      } catch (error: any) {
+        this.options.logger.warn('⚠️ Conversation summary failed, keeping an extract instead:', error.message);
+      }
+    }
+    const combined = this.summary ? `${this.summary}\n${addition}` : addition;
+    this.summary = combined.length > MAX_SUMMARY_CHARS ? combined.slice(combined.length - MAX_SUMMARY_CHARS) : combined;
+  }
+
+  reset(): void {
+    this.summary = '';
+    this.turns = [];
+  }
+
+  snapshot(): ConversationSnapshot {
+    return { summary: this.summary, turns: this.turns.map(turn => turn.map(message => ({ ...message }))) };
+  }
+
+  restore(snapshot: ConversationSnapshot): void {
+    this.summary = snapshot.summary ?? '';
+    this.turns = (snapshot.turns ?? []).map(turn => turn.map(message => ({ ...message })));
+  }
+
+  get turnCount(): number {
+    return this.turns.length;
+  }
+}
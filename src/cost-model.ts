@@ -0,0 +1,154 @@
+import { AutomationStrategy } from './types';
+import { SUPRA_COIN_TYPE } from './chain-gateway';
+import { CoinInfo, SUPRA_COIN, fromBaseUnits, normalizeCoinType } from './coin-metadata';
+import { NON_EXECUTION_ACTIONS, toSupra } from './accounting';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_MONTH = 30;
+const OBSERVATION_WINDOW_MS = 7 * DAY_MS;
+/**
+ * What the projection reads from a strategy; `committedMonthlyTransfer` is in whole units of its
+ * coin, and `coin` converts observed transfers of coins other than SUPRA. Strategies whose type
+ * `returnsFunds`, such as sweeps, move coins back to the owner, so their transfers are not spend.
+ */
+export type CostedStrategy = Pick<AutomationStrategy, 'id' | 'name' | 'createdAt' | 'executionHistory' | 'coinType'> & {
+  committedMonthlyTransfer?: number;
+  coin?: CoinInfo;
+  returnsFunds?: boolean;
+};
+
+export interface CostModelInputs {
+  feePerEpoch: bigint;
+  feeSource: 'estimate_automation_fee' | 'unavailable';
+  epochIntervalSecs: number;
+  epochIntervalSource: 'chain' | 'default';
+  maxGasAmount: bigint;
+  gasPriceCap: bigint;
+}
+
+export interface StrategyCostProjection {
+  strategyId: string;
+  name: string;
+  basis: 'observed' | 'no_history';
+  observedDays: number;
+  executionsPerDay: number;
+  topupsPerDay: number;
+  monthlyAutomationFeeSupra: number;
+  monthlyExecutionGasSupra: number;
+  monthlyFeesSupra: number;
+  monthlyTopupSupra: number;
+  monthlyTotalSupra: number;
+  /** Normalized type of the coin the strategy transfers, and its monthly transfers in whole units of that coin. */
+  coinType: string;
+  monthlyTransferInCoin: number;
+}
+
+export interface MonthlyCostProjection {
+  strategies: StrategyCostProjection[];
+  totals: {
+    monthlyFeesSupra: number;
+    monthlyTopupSupra: number;
+    monthlyTotalSupra: number;
+    /** Monthly transfers keyed by normalized coin type, SUPRA included; the SUPRA totals leave other coins out. */
+    monthlyTransferByCoin: Record<string, number>;
+  };
+  assumptions: {
+    feePerEpochSupra: number;
+    feeSource: CostModelInputs['feeSource'];
+    epochIntervalSecs: number;
+    epochIntervalSource: CostModelInputs['epochIntervalSource'];
+    epochsPerMonth: number;
+    maxGasAmount: string;
+    gasPriceCap: string;
+    maxExecutionGasSupra: number;
+    observationWindowDays: number;
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 1_000_000) / 1_000_000;
+}
+
+export function epochsPerMonth(inputs: CostModelInputs): number {
+  return (DAYS_PER_MONTH * DAY_MS) / (inputs.epochIntervalSecs * 1000);
+}
+
+export function projectStrategyCost(
+  strategy: CostedStrategy,
+  inputs: CostModelInputs,
+  now: Date = new Date()
+): StrategyCostProjection {
+  const windowStart = Math.max(strategy.createdAt.getTime(), now.getTime() - OBSERVATION_WINDOW_MS);
+  const observedDays = Math.max(0, (now.getTime() - windowStart) / DAY_MS);
+  const executions = strategy.executionHistory.filter(r =>
+    r.timestamp.getTime() >= windowStart && !NON_EXECUTION_ACTIONS.includes(r.action)
+  );
+  const hasHistory = executions.length > 0 && observedDays > 0;
+  const executionsPerDay = hasHistory ? executions.length / observedDays : 0;
+  // Transfers are taken from what each execution actually moved, so every strategy type is projected the same way.
+  const transfers = strategy.returnsFunds ? [] : executions.filter(r => r.amount > BigInt(0));
+  const topupsPerDay = hasHistory ? transfers.length / observedDays : 0;
+  const coinType = normalizeCoinType(strategy.coinType ?? SUPRA_COIN_TYPE);
+  const movesSupra = coinType === SUPRA_COIN_TYPE;
+  const coin = movesSupra ? SUPRA_COIN : strategy.coin;
+  const transferredPerDay = hasHistory && coin ? fromBaseUnits(transfers.reduce((sum, r) => sum + r.amount, BigInt(0)), coin) / observedDays : 0;
+  // Committed transfers, such as a schedule's payments, count before the strategy has any history.
+  const monthlyTransferInCoin = Math.max(transferredPerDay * DAYS_PER_MONTH, strategy.committedMonthlyTransfer ?? 0);
+
+  const maxExecutionGas = toSupra(inputs.maxGasAmount * inputs.gasPriceCap);
+  const monthlyAutomationFeeSupra = toSupra(inputs.feePerEpoch) * epochsPerMonth(inputs);
+  const monthlyExecutionGasSupra = executionsPerDay * DAYS_PER_MONTH * maxExecutionGas;
+  const monthlyFeesSupra = monthlyAutomationFeeSupra + monthlyExecutionGasSupra;
+  // Transfers of other coins still cost execution fees but are not SUPRA spend; the policy limits them per coin.
+  const monthlyTopupSupra = movesSupra ? monthlyTransferInCoin : 0;
+
+  return {
+    strategyId: strategy.id,
+    name: strategy.name,
+    basis: hasHistory ? 'observed' : 'no_history',
+    observedDays: round(observedDays),
+    executionsPerDay: round(executionsPerDay),
+    topupsPerDay: round(topupsPerDay),
+    monthlyAutomationFeeSupra: round(monthlyAutomationFeeSupra),
+    monthlyExecutionGasSupra: round(monthlyExecutionGasSupra),
+    monthlyFeesSupra: round(monthlyFeesSupra),
+    monthlyTopupSupra: round(monthlyTopupSupra),
+    monthlyTotalSupra: round(monthlyFeesSupra + monthlyTopupSupra),
+    coinType,
+    monthlyTransferInCoin: round(monthlyTransferInCoin)
+  };
+}
+
+export function projectMonthlyCost(
+  strategies: CostedStrategy[],
+  inputs: CostModelInputs,
+  now: Date = new Date()
+): MonthlyCostProjection {
+  const projections = strategies.map(s => projectStrategyCost(s, inputs, now));
+  const monthlyFeesSupra = projections.reduce((sum, p) => sum + p.monthlyFeesSupra, 0);
+  const monthlyTopupSupra = projections.reduce((sum, p) => sum + p.monthlyTopupSupra, 0);
+  const monthlyTransferByCoin: Record<string, number> = {};
+  for (const p of projections) {
+    monthlyTransferByCoin[p.coinType] = round((monthlyTransferByCoin[p.coinType] ?? 0) + p.monthlyTransferInCoin);
+  }
+  return {
+    strategies: projections,
+    totals: {
+      monthlyFeesSupra: round(monthlyFeesSupra),
+      monthlyTopupSupra: round(monthlyTopupSupra),
+      monthlyTotalSupra: round(monthlyFeesSupra + monthlyTopupSupra),
+      monthlyTransferByCoin
+    },
+    assumptions: {
+      feePerEpochSupra: toSupra(inputs.feePerEpoch),
+      feeSource: inputs.feeSource,
+      epochIntervalSecs: inputs.epochIntervalSecs,
+      epochIntervalSource: inputs.epochIntervalSource,
+      epochsPerMonth: round(epochsPerMonth(inputs)),
+      maxGasAmount: inputs.maxGasAmount.toString(),
+      gasPriceCap: inputs.gasPriceCap.toString(),
+      maxExecutionGasSupra: toSupra(inputs.maxGasAmount * inputs.gasPriceCap),
+      observationWindowDays: OBSERVATION_WINDOW_MS / DAY_MS
+    }
+  };
+}
@@ -0,0 +1,132 @@
+import { normalizeAddress } from './automation-registry';
+import { ChainGateway } from './chain-gateway';
+import { normalizeCoinType } from './coin-metadata';
+
+export const FAILURE_ACTIONS = ['insufficient_deployer_balance', 'target_not_registered'];
+const IGNORED_ACTIONS = ['automation_started'];
+const BLOCK_WINDOW = 5000;
+
+export interface IndexedExecution {
+  /** Name of the Move event the execution was read from, e.g. `AutomationExecutedEvent`. */
+  eventType: string;
+  deployer: string;
+  target: string;
+  action: string;
+  success: boolean;
+  amount: bigint;
+  targetBalance: bigint;
+  executionCount: number;
+  timestamp: Date;
+  blockHeight: number;
+  /** Set for executions of a scheduled transfer, which report per schedule rather than per target. */
+  scheduleId?: number;
+  /** Normalized coin type the task moved; unset for events of module versions that did not report it. */
+  coinType?: string;
+}
+
+/** Whether an execution moved `coinType`. Events that do not name their coin match any coin. */
+export function executionMovesCoin(execution: IndexedExecution, coinType: string): boolean {
+  return execution.coinType === undefined || execution.coinType === normalizeCoinType(coinType);
+}
+
+function decodeCoinType(value: any): string | undefined {
+  return typeof value === 'string' && value.includes('::') ? normalizeCoinType(value) : undefined;
+}
+
+function decodeAction(value: any): string {
+  if (typeof value === 'string' && value.startsWith('0x')) {
+    return Buffer.from(value.slice(2), 'hex').toString('utf8');
+  }
+  if (Array.isArray(value)) {
+    return Buffer.from(value).toString('utf8');
+  }
+  return String(value ?? '');
+}
+
+export class AutomationEventIndexer {
+  constructor(
+    private gateway: ChainGateway,
+    private contractAddress: string,
+    private modulePrefix: string
+  ) {}
+
+  async fetchExecutions(deployer: string, fromHeight?: number): Promise<{ executions: IndexedExecution[]; latestHeight: number }> {
+    const latestHeight = await this.gateway.getLatestBlockHeight();
+    const start = Math.max(0, fromHeight ?? latestHeight - BLOCK_WINDOW);
+    const deployerAddress = normalizeAddress(deployer);
+
+    const eventPrefix = `${this.contractAddress}::${this.modulePrefix}`;
+    const executedEvents = await this.gateway.getEvents(`${eventPrefix}::AutomationExecutedEvent`, start, latestHeight);
+    const topupEvents = await this.gateway.getEvents(`${eventPrefix}::AutoTopUpEvent`, start, latestHeight);
+    const topupAmounts = new Map<string, bigint>();
+    for (const event of topupEvents) {
+      if (normalizeAddress(event.data.deployer) !== deployerAddress) continue;
+      const key = `${normalizeAddress(event.data.target)}:${event.data.execution_count}`;
+      topupAmounts.set(key, BigInt(event.data.amount ?? 0));
+    }
+
+    const executions: IndexedExecution[] = [];
+    for (const event of executedEvents) {
+      if (normalizeAddress(event.data.deployer) !== deployerAddress) continue;
+      const action = decodeAction(event.data.action_taken);
+      if (IGNORED_ACTIONS.includes(action)) continue;
+      const target = normalizeAddress(event.data.target);
+      const executionCount = Number(event.data.execution_count ?? 0);
+      executions.push({
+        eventType: 'AutomationExecutedEvent',
+        deployer: deployerAddress,
+        target,
+        action,
+        success: !FAILURE_ACTIONS.includes(action),
+        amount: action === 'topup_executed' ? topupAmounts.get(`${target}:${executionCount}`) ?? BigInt(0) : BigInt(0),
+        targetBalance: BigInt(event.data.target_balance ?? 0),
+        executionCount,
+        timestamp: new Date(Number(event.data.timestamp ?? 0) * 1000),
+        blockHeight: event.blockHeight,
+        coinType: decodeCoinType(event.data.coin_type)
+      });
+    }
+
+    const scheduleEvents = await this.gateway.getEvents(`${eventPrefix}::ScheduledTransferEvent`, start, latestHeight);
+    for (const event of scheduleEvents) {
+      if (normalizeAddress(event.data.deployer) !== deployerAddress) continue;
+      const action = decodeAction(event.data.action_taken);
+      executions.push({
+        eventType: 'ScheduledTransferEvent',
+        deployer: deployerAddress,
+        target: normalizeAddress(event.data.recipient),
+        action,
+        success: !FAILURE_ACTIONS.includes(action),
+        amount: BigInt(event.data.amount ?? 0),
+        targetBalance: BigInt(event.data.recipient_balance ?? 0),
+        executionCount: Number(event.data.payments_made ?? 0),
+        timestamp: new Date(Number(event.data.timestamp ?? 0) * 1000),
+        blockHeight: event.blockHeight,
+        scheduleId: Number(event.data.schedule_id),
+        coinType: decodeCoinType(event.data.coin_type)
+      });
+    }
+
+    const sweepEvents = await this.gateway.getEvents(`${eventPrefix}::ExcessSweptEvent`, start, latestHeight);
+    for (const event of sweepEvents) {
+      if (normalizeAddress(event.data.source) !== deployerAddress) continue;
+      const action = decodeAction(event.data.action_taken);
+      executions.push({
+        eventType: 'ExcessSweptEvent',
+        deployer: deployerAddress,
+        target: normalizeAddress(event.data.treasury),
+        action,
+        success: !FAILURE_ACTIONS.includes(action),
+        amount: BigInt(event.data.amount ?? 0),
+        targetBalance: BigInt(event.data.source_balance ?? 0),
+        executionCount: 0,
+        timestamp: new Date(Number(event.data.timestamp ?? 0) * 1000),
+        blockHeight: event.blockHeight,
+        coinType: decodeCoinType(event.data.coin_type)
+      });
+    }
+    executions.sort((a, b) => a.blockHeight - b.blockHeight);
+    return { executions, latestHeight };
+  }
+
+}
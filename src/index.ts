@@ -0,0 +1,68 @@
+export { SupraSuperAgent, SuperAgentConfig, CreateSuperAgentOptions, createSuperAgent } from './super-agent';
+export { StrategyStore, InMemoryStrategyStore, JsonFileStrategyStore } from './strategy-store';
+export { TimeframeAnalytics, StrategyAnalyticsRow, TIMEFRAMES } from './analytics';
+export { MonthlyCostProjection, StrategyCostProjection } from './cost-model';
+export * from './types';
+export * from './api-types';
+export {
+  LLMProvider,
+  LLMMessage,
+  LLMToolCall,
+  LLMToolDefinition,
+  LLMCompletion,
+  LLMCompletionRequest,
+  OpenAIProvider,
+  OpenAIProviderOptions,
+  MockLLMProvider,
+  MockTurn,
+  createLLMProviderFromEnv
+} from './llm-provider';
+export {
+  ChainGateway,
+  ChainEvent,
+  EntryFunctionCall,
+  AutomationRegistrationParams,
+  SupraClientGateway,
+  SUPRA_COIN_TYPE
+} from './chain-gateway';
+export {
+  CoinInfo,
+  CoinMetadataRegistry,
+  SUPRA_COIN,
+  formatCoinAmount,
+  fromBaseUnits,
+  isValidCoinType,
+  normalizeCoinType,
+  toBaseUnits
+} from './coin-metadata';
+export { SupraSimulator, SupraSimulatorOptions, SimulatedTask, TopUpManagerState, TransferScheduleState } from './supra-simulator';
+export { ConversationMemory, ConversationMemoryOptions, ConversationSnapshot, estimateTokens } from './conversation-memory';
+export {
+  AccountRegistry,
+  NamedAccount,
+  DEFAULT_ACCOUNT_NAME,
+  accountFromPrivateKey,
+  isValidAccountName,
+  loadAccountRegistryFromEnv
+} from './account-registry';
+export { TransactionSigner, AccountSigner } from './signer';
+export { JsonFileKeystore, KeystoreKeySummary, UnlockedKey, DEFAULT_KEYSTORE_PATH } from './keystore';
+export {
+  PolicyEngine,
+  SpendingPolicy,
+  PolicyRule,
+  PolicyViolation,
+  PolicyCheckInput,
+  loadSpendingPolicyFromEnv
+} from './policy-engine';
+export { ModuleViewCall, RecordedRuns, StrategyTypeDefinition, StrategyTypeRegistry, createDefaultStrategyTypes } from './strategy-types';
+export { autoTopupStrategy, DEFAULT_THRESHOLD_SUPRA, DEFAULT_TOPUP_AMOUNT_SUPRA } from './auto-topup-strategy';
+export {
+  scheduledTransferStrategy,
+  scheduleProgress,
+  ScheduleProgress,
+  SCHEDULE_INTERVALS,
+  DEFAULT_SCHEDULE_INTERVAL
+} from './scheduled-transfer-strategy';
+export { sweepExcessStrategy, DEFAULT_MIN_SWEEP_SUPRA } from './sweep-excess-strategy';
+export { JsonFileSessionStore, ChatSession, SessionSummary, isValidSessionName, defaultSessionName } from './session-store';
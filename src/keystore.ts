@@ -0,0 +1,193 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import { SupraAccount, HexString } from 'supra-l1-sdk';
+import { AccountSigner } from './signer';
+import { accountFromPrivateKey, isValidAccountName } from './account-registry';
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number, options: crypto.ScryptOptions) => Promise<Buffer>;
+
+export const DEFAULT_KEYSTORE_PATH = '.supra-agent/keystore.json';
+const KEYSTORE_VERSION = 1;
+const MIN_PASSPHRASE_LENGTH = 8;
+const SCRYPT_PARAMS = { n: 1 << 15, r: 8, p: 1, dklen: 32 };
+
+interface EncryptedKey {
+  kdf: 'scrypt';
+  kdfparams: { n: number; r: number; p: number; dklen: number; salt: string };
+  cipher: 'aes-256-gcm';
+  iv: string;
+  ciphertext: string;
+  tag: string;
+}
+
+interface KeystoreEntry {
+  name: string;
+  address: string;
+  createdAt: string;
+  crypto: EncryptedKey;
+}
+
+export interface KeystoreKeySummary {
+  name: string;
+  address: string;
+  createdAt: Date;
+}
+
+export interface UnlockedKey {
+  name: string;
+  signer: AccountSigner;
+}
+
+function deriveKey(passphrase: string, params: EncryptedKey['kdfparams']): Promise<Buffer> {
+  return scrypt(passphrase, Buffer.from(params.salt, 'hex'), params.dklen, {
+    N: params.n,
+    r: params.r,
+    p: params.p,
+    maxmem: 256 * params.n * params.r
+  });
+}
+
+function summarize(entry: KeystoreEntry): KeystoreKeySummary {
+  return { name: entry.name, address: entry.address, createdAt: new Date(entry.createdAt) };
+}
+
+/**
+ * Private keys encrypted at rest: each key gets its own scrypt salt and AES-256-GCM nonce, and the
+ * address is bound in as associated data so entries cannot be swapped between names. Only
+ * addresses are readable without the passphrase.
+ */
+export class JsonFileKeystore {
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string = DEFAULT_KEYSTORE_PATH) {}
+
+  get location(): string {
+    return this.filePath;
+  }
+
+  async list(): Promise<KeystoreKeySummary[]> {
+    return (await this.readEntries()).map(summarize);
+  }
+
+  async getAddress(name: string): Promise<string> {
+    return (await this.requireEntry(name)).address;
+  }
+
+  async create(name: string, passphrase: string): Promise<KeystoreKeySummary> {
+    const account = new SupraAccount();
+    return this.addAccount(name, account, passphrase);
+  }
+
+  async importPrivateKey(name: string, privateKeyHex: string, passphrase: string): Promise<KeystoreKeySummary> {
+    return this.addAccount(name, accountFromPrivateKey(privateKeyHex), passphrase);
+  }
+
+  async unlock(name: string, passphrase: string): Promise<AccountSigner> {
+    return this.decrypt(await this.requireEntry(name), passphrase);
+  }
+
+  async unlockAll(passphrase: string): Promise<UnlockedKey[]> {
+    const unlocked: UnlockedKey[] = [];
+    for (const entry of await this.readEntries()) {
+      unlocked.push({ name: entry.name, signer: await this.decrypt(entry, passphrase) });
+    }
+    return unlocked;
+  }
+
+  private async addAccount(name: string, account: SupraAccount, passphrase: string): Promise<KeystoreKeySummary> {
+    if (!isValidAccountName(name)) {
+      throw new Error(`Invalid key name "${name}": use lowercase letters, digits, "-" or "_" (max 32 characters)`);
+    }
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+    }
+    const entry = await this.encrypt(name, account, passphrase);
+    await this.update(entries => {
+      if (entries.some(e => e.name === name)) {
+        throw new Error(`Key "${name}" already exists in ${this.filePath}`);
+      }
+      if (entries.some(e => e.address === entry.address)) {
+        throw new Error(`Address ${entry.address} is already stored as "${entries.find(e => e.address === entry.address)!.name}"`);
+      }
+      return [...entries, entry];
+    });
+    return summarize(entry);
+  }
+
+  private async encrypt(name: string, account: SupraAccount, passphrase: string): Promise<KeystoreEntry> {
+    const address = account.address().toString();
+    const kdfparams = { ...SCRYPT_PARAMS, salt: crypto.randomBytes(32).toString('hex') };
+    const key = await deriveKey(passphrase, kdfparams);
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    cipher.setAAD(Buffer.from(address, 'utf8'));
+    const seed = Buffer.from(account.signingKey.secretKey.slice(0, 32));
+    const ciphertext = Buffer.concat([cipher.update(seed), cipher.final()]);
+    seed.fill(0);
+    return {
+      name,
+      address,
+      createdAt: new Date().toISOString(),
+      crypto: {
+        kdf: 'scrypt',
+        kdfparams,
+        cipher: 'aes-256-gcm',
+        iv: iv.toString('hex'),
+        ciphertext: ciphertext.toString('hex'),
+        tag: cipher.getAuthTag().toString('hex')
+      }
+    };
+  }
+
+  private async decrypt(entry: KeystoreEntry, passphrase: string): Promise<AccountSigner> {
+    const key = await deriveKey(passphrase, entry.crypto.kdfparams);
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(entry.crypto.iv, 'hex'));
+    decipher.setAAD(Buffer.from(entry.address, 'utf8'));
+    decipher.setAuthTag(Buffer.from(entry.crypto.tag, 'hex'));
+    let seed: Buffer;
+    try {
+      seed = Buffer.concat([decipher.update(Buffer.from(entry.crypto.ciphertext, 'hex')), decipher.final()]);
+    } catch (error) {
+      throw new Error(`Wrong passphrase for key "${entry.name}"`);
+    }
+    const account = new SupraAccount(new HexString(seed.toString('hex')).toUint8Array());
+    seed.fill(0);
+    if (account.address().toString() !== entry.address) {
+      throw new Error(`Key "${entry.name}" decrypted to ${account.address().toString()}, expected ${entry.address}`);
+    }
+    return new AccountSigner(account);
+  }
+
+  private async requireEntry(name: string): Promise<KeystoreEntry> {
+    const entry = (await this.readEntries()).find(e => e.name === name);
+    if (!entry) {
+      throw new Error(`No key named "${name}" in ${this.filePath}`);
+    }
+    return entry;
+  }
+
+  private async readEntries(): Promise<KeystoreEntry[]> {
+    try {
+      const raw = JSON.parse(await fs.promises.readFile(this.filePath, 'utf8'));
+      return raw.keys ?? [];
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw new Error(`Failed to read keystore ${this.filePath}: ${error.message}`);
+    }
+  }
+
+  private update(mutate: (entries: KeystoreEntry[]) => KeystoreEntry[]): Promise<void> {
+    const write = async () => {
+      const entries = mutate(await this.readEntries());
+      const payload = JSON.stringify({ version: KEYSTORE_VERSION, keys: entries }, null, 2);
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.writeFile(`${this.filePath}.tmp`, payload, { encoding: 'utf8', mode: 0o600 });
+      await fs.promises.rename(`${this.filePath}.tmp`, this.filePath);
+    };
+    const queued = this.writeQueue.then(write, write);
+    this.writeQueue = queued.catch(() => undefined);
+    return queued;
+  }
+}
@@ -0,0 +1,164 @@
+import OpenAI from 'openai';
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+export type LLMMessage =
+  | { role: 'system'; content: string }
+  | { role: 'user'; content: string }
+  | { role: 'assistant'; content: string | null; toolCalls?: LLMToolCall[] }
+  | { role: 'tool'; toolCallId: string; content: string };
+
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface LLMCompletionRequest {
+  messages: LLMMessage[];
+  tools?: LLMToolDefinition[];
+  toolChoice?: 'auto' | 'none';
+}
+
+export interface LLMCompletion {
+  content: string | null;
+  toolCalls: LLMToolCall[];
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletion>;
+}
+
+export interface OpenAIProviderOptions {
+  apiKey?: string;
+  baseURL?: string;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  presencePenalty?: number;
+  frequencyPenalty?: number;
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string;
+  private client: OpenAI;
+  private options: OpenAIProviderOptions;
+
+  constructor(options: OpenAIProviderOptions = {}) {
+    this.options = {
+      ...options,
+      model: options.model ?? 'gpt-4',
+      temperature: options.temperature ?? 0.7,
+      maxTokens: options.maxTokens ?? 1000,
+      presencePenalty: options.presencePenalty ?? 0.1,
+      frequencyPenalty: options.frequencyPenalty ?? 0.1
+    };
+    // Self-hosted OpenAI-compatible servers usually ignore the key, but the SDK refuses to start without one.
+    this.client = new OpenAI({
+      apiKey: options.apiKey ?? (options.baseURL ? 'not-needed' : undefined),
+      baseURL: options.baseURL
+    });
+    this.name = `openai:${this.options.model}${options.baseURL ? `@${options.baseURL}` : ''}`;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const response = await this.client.chat.completions.create({
+      model: this.options.model!,
+      messages: request.messages.map(toOpenAIMessage),
+      tools: request.tools?.map(tool => ({ type: 'function' as const, function: tool })),
+      tool_choice: request.tools ? request.toolChoice ?? 'auto' : undefined,
+      temperature: this.options.temperature,
+      max_tokens: this.options.maxTokens,
+      presence_penalty: this.options.presencePenalty,
+      frequency_penalty: this.options.frequencyPenalty
+    });
+    const message = response.choices[0].message;
+    return {
+      content: message.content,
+      toolCalls: (message.tool_calls ?? []).map(call => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: call.function.arguments
+      }))
+    };
+  }
+}
+
+function toOpenAIMessage(message: LLMMessage): OpenAI.Chat.ChatCompletionMessageParam {
+  switch (message.role) {
+    case 'assistant':
+      return {
+        role: 'assistant',
+        content: message.content,
+        ...(message.toolCalls && message.toolCalls.length > 0 ? {
+          tool_calls: message.toolCalls.map(call => ({
+            id: call.id,
+            type: 'function' as const,
+            function: { name: call.name, arguments: call.arguments }
+          }))
+        } : {})
+      };
+    case 'tool':
+      return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+    default:
+      return message;
+  }
+}
+
+export interface MockTurn {
+  content?: string;
+  toolCalls?: Array<{ name: string; arguments?: Record<string, unknown> }>;
+}
+
+export class MockLLMProvider implements LLMProvider {
+  readonly name = 'mock';
+  readonly requests: LLMCompletionRequest[] = [];
+  private callCounter = 0;
+
+  constructor(private turns: MockTurn[]) {}
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    this.requests.push({ ...request, messages: [...request.messages] });
+    const turn = this.turns.shift();
+    if (!turn) {
+      throw new Error(`Mock LLM script exhausted after ${this.requests.length - 1} completions`);
+    }
+    const toolCalls = request.toolChoice === 'none' ? [] : (turn.toolCalls ?? []);
+    return {
+      content: turn.content ?? null,
+      toolCalls: toolCalls.map(call => ({
+        id: `call_${++this.callCounter}`,
+        name: call.name,
+        arguments: JSON.stringify(call.arguments ?? {})
+      }))
+    };
+  }
+
+  get remainingTurns(): number {
+    return this.turns.length;
+  }
+}
+
+export function createLLMProviderFromEnv(env: NodeJS.ProcessEnv = process.env): LLMProvider {
+  const number = (key: string): number | undefined => {
+    const value = env[key];
+    if (value === undefined || value.trim() === '') return undefined;
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed < 0) {
+      throw new Error(`${key} must be a non-negative number, got "${value}"`);
+    }
+    return parsed;
+  };
+  return new OpenAIProvider({
+    apiKey: env.LLM_API_KEY || env.OPENAI_API_KEY,
+    baseURL: env.LLM_BASE_URL || undefined,
+    model: env.LLM_MODEL || undefined,
+    temperature: number('LLM_TEMPERATURE'),
+    maxTokens: number('LLM_MAX_TOKENS')
+  });
+}
@@ -0,0 +1,76 @@
+import { PolicyCheckInput, PolicyEngine, loadSpendingPolicyFromEnv } from './policy-engine';
+
+const TARGET = '0x00000000000000000000000000000000000000000000000000000000000000ab';
+
+function input(overrides: Partial<PolicyCheckInput> = {}): PolicyCheckInput {
+  return {
+    fundingAccount: 'default',
+    target: TARGET,
+    feeCapSupra: 10,
+    activeStrategiesOnAccount: 0,
+    projectedMonthlySpendSupra: 100,
+    balanceAfterCommitmentSupra: 1000,
+    ...overrides
+  };
+}
+
+describe('PolicyEngine', () => {
+  it('allows everything under an empty policy', () => {
+    expect(new PolicyEngine().evaluate(input({ feeCapSupra: 1e9, activeStrategiesOnAccount: 1000, projectedMonthlySpendSupra: 1e9 }))).toEqual([]);
+  });
+
+  it('caps the automation fee per task', () => {
+    const engine = new PolicyEngine({ maxFeeCapSupra: 10 });
+    expect(engine.evaluate(input({ feeCapSupra: 10 }))).toEqual([]);
+    expect(engine.evaluate(input({ feeCapSupra: 10.5 }))).toEqual([expect.objectContaining({ rule: 'MAX_FEE_CAP', limit: 10, actual: 10.5 })]);
+  });
+
+  it('limits the projected monthly spend, the new strategy included', () => {
+    const engine = new PolicyEngine({ maxMonthlySpendSupra: 500 });
+    expect(engine.evaluate(input({ projectedMonthlySpendSupra: 500 }))).toEqual([]);
+    expect(engine.evaluate(input({ projectedMonthlySpendSupra: 500.25 }))).toEqual([expect.objectContaining({ rule: 'MAX_MONTHLY_SPEND', limit: 500, actual: 500.25 })]);
+  });
+
+  it('counts the new strategy toward the per-account limit', () => {
+    const engine = new PolicyEngine({ maxStrategiesPerAccount: 2 });
+    expect(engine.evaluate(input({ activeStrategiesOnAccount: 1 }))).toEqual([]);
+    expect(engine.evaluate(input({ activeStrategiesOnAccount: 2 }))).toEqual([expect.objectContaining({ rule: 'MAX_STRATEGIES_PER_ACCOUNT', limit: 2, actual: 3 })]);
+  });
+
+  it('matches target lists whatever the address padding', () => {
+    expect(new PolicyEngine({ deniedTargets: ['0xab'] }).evaluate(input())).toEqual([expect.objectContaining({ rule: 'TARGET_DENIED' })]);
+    expect(new PolicyEngine({ allowedTargets: ['0xAB'] }).evaluate(input())).toEqual([]);
+    expect(new PolicyEngine({ allowedTargets: ['0xcd'] }).evaluate(input())).toEqual([expect.objectContaining({ rule: 'TARGET_NOT_ALLOWED' })]);
+  });
+
+  it('requires a funding floor to cover the reserve and committed fee caps even without a policy', () => {
+    expect(new PolicyEngine().evaluate(input({ fundingFloorSupra: 50, committedFeeCapsSupra: 120 })))
+      .toEqual([expect.objectContaining({ rule: 'MIN_RESERVE', limit: 120, actual: 50 })]);
+    expect(new PolicyEngine({ minReserveSupra: 30 }).evaluate(input({ fundingFloorSupra: 140, committedFeeCapsSupra: 120 })))
+      .toEqual([expect.objectContaining({ rule: 'MIN_RESERVE', limit: 150 })]);
+  });
+
+  it('limits other coins per coin and refuses them while only a SUPRA limit is set', () => {
+    const usdc = { coinType: '0x0005::usdc::USDC', coinSymbol: 'USDC', projectedMonthlyTransferInCoin: 300 };
+    expect(new PolicyEngine({ maxMonthlyTransferByCoin: { '0x5::usdc::USDC': 300 } }).evaluate(input(usdc))).toEqual([]);
+    expect(new PolicyEngine({ maxMonthlyTransferByCoin: { '0x5::usdc::USDC': 200 } }).evaluate(input(usdc)))
+      .toEqual([expect.objectContaining({ rule: 'MAX_MONTHLY_SPEND', limit: 200, actual: 300 })]);
+    expect(new PolicyEngine({ maxMonthlySpendSupra: 5000 }).evaluate(input(usdc)))
+      .toEqual([expect.objectContaining({ rule: 'MAX_MONTHLY_SPEND', limit: 'no USDC limit' })]);
+  });
+});
+
+describe('loadSpendingPolicyFromEnv', () => {
+  it('reads limits and per-coin pairs', () => {
+    expect(loadSpendingPolicyFromEnv({
+      SUPRA_POLICY_MAX_FEE_CAP_SUPRA: '25',
+      SUPRA_POLICY_ALLOWED_TARGETS: '0xab, 0xcd',
+      SUPRA_POLICY_MAX_MONTHLY_TRANSFER_BY_COIN: '0x5::usdc::USDC=1000'
+    })).toMatchObject({ maxFeeCapSupra: 25, allowedTargets: ['0xab', '0xcd'], maxMonthlyTransferByCoin: { '0x5::usdc::USDC': 1000 }, maxMonthlySpendSupra: undefined });
+  });
+
+  it('rejects values that are not limits', () => {
+    expect(() => loadSpendingPolicyFromEnv({ SUPRA_POLICY_MAX_MONTHLY_SPEND_SUPRA: 'lots' })).toThrow('SUPRA_POLICY_MAX_MONTHLY_SPEND_SUPRA');
+    expect(() => loadSpendingPolicyFromEnv({ SUPRA_POLICY_MAX_MONTHLY_TRANSFER_BY_COIN: '0x5::usdc::USDC' })).toThrow('SUPRA_POLICY_MAX_MONTHLY_TRANSFER_BY_COIN');
+  });
+});
@@ -0,0 +1,219 @@
+import { normalizeAddress } from './automation-registry';
+import { SUPRA_COIN_TYPE } from './chain-gateway';
+import { normalizeCoinType } from './coin-metadata';
+
+export interface SpendingPolicy {
+  maxStrategiesPerAccount?: number;
+  maxMonthlySpendSupra?: number;
+  maxFeeCapSupra?: number;
+  allowedTargets?: string[];
+  deniedTargets?: string[];
+  minReserveSupra?: number;
+  /**
+   * Monthly transfer limits in whole units, keyed by coin type. The SUPRA spend limit does not
+   * cover other coins, so while it is set a coin without a limit here is refused.
+   */
+  maxMonthlyTransferByCoin?: Record<string, number>;
+}
+
+export type PolicyRule =
+  | 'MAX_STRATEGIES_PER_ACCOUNT'
+  | 'MAX_MONTHLY_SPEND'
+  | 'MAX_FEE_CAP'
+  | 'TARGET_NOT_ALLOWED'
+  | 'TARGET_DENIED'
+  | 'MIN_RESERVE';
+
+export interface PolicyViolation {
+  rule: PolicyRule;
+  limit: number | string;
+  actual: number | string;
+  message: string;
+}
+
+/** What a new commitment would look like once deployed; amounts are in SUPRA. */
+export interface PolicyCheckInput {
+  fundingAccount: string;
+  target: string;
+  feeCapSupra: number;
+  activeStrategiesOnAccount: number;
+  projectedMonthlySpendSupra: number;
+  balanceAfterCommitmentSupra: number;
+  /** Balance the strategy itself leaves in the funding account, such as a sweep's ceiling. */
+  fundingFloorSupra?: number;
+  /** Fee caps of the account's tasks, this one included, plus the agent's balance buffer. */
+  committedFeeCapsSupra?: number;
+  /** Coin the strategy transfers, and the projected monthly transfers of that coin in whole units. */
+  coinType?: string;
+  coinSymbol?: string;
+  projectedMonthlyTransferInCoin?: number;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1_000_000) / 1_000_000;
+}
+
+/**
+ * Spending limits checked before anything is signed. Every limit is optional; an empty policy
+ * allows everything, which keeps the previous behaviour for existing setups. The one exception is a
+ * strategy that would leave its funding account unable to pay its own fee caps.
+ */
+export class PolicyEngine {
+  private allowed: Set<string>;
+  private denied: Set<string>;
+  private coinLimits: Map<string, number>;
+
+  constructor(private policy: SpendingPolicy = {}) {
+    this.allowed = new Set((policy.allowedTargets ?? []).map(normalizeAddress));
+    this.denied = new Set((policy.deniedTargets ?? []).map(normalizeAddress));
+    this.coinLimits = new Map(Object.entries(policy.maxMonthlyTransferByCoin ?? {}).map(([coinType, limit]) => [normalizeCoinType(coinType), limit]));
+  }
+
+  getPolicy(): SpendingPolicy {
+    return { ...this.policy };
+  }
+
+  evaluate(input: PolicyCheckInput): PolicyViolation[] {
+    const violations: PolicyViolation[] = [];
+    const { policy } = this;
+    const target = normalizeAddress(input.target);
+
+    if (this.denied.has(target)) {
+      violations.push({
+        rule: 'TARGET_DENIED',
+        limit: 'deny list',
+        actual: input.target,
+        message: `Target ${input.target} is on the deny list`
+      });
+    }
+    if (this.allowed.size > 0 && !this.allowed.has(target)) {
+      violations.push({
+        rule: 'TARGET_NOT_ALLOWED',
+        limit: 'allow list',
+        actual: input.target,
+        message: `Target ${input.target} is not on the allow list`
+      });
+    }
+    if (policy.maxStrategiesPerAccount !== undefined && input.activeStrategiesOnAccount + 1 > policy.maxStrategiesPerAccount) {
+      violations.push({
+        rule: 'MAX_STRATEGIES_PER_ACCOUNT',
+        limit: policy.maxStrategiesPerAccount,
+        actual: input.activeStrategiesOnAccount + 1,
+        message: `Account "${input.fundingAccount}" would fund ${input.activeStrategiesOnAccount + 1} active strategies (limit ${policy.maxStrategiesPerAccount})`
+      });
+    }
+    if (policy.maxFeeCapSupra !== undefined && input.feeCapSupra > policy.maxFeeCapSupra) {
+      violations.push({
+        rule: 'MAX_FEE_CAP',
+        limit: policy.maxFeeCapSupra,
+        actual: round(input.feeCapSupra),
+        message: `Automation fee cap of ${round(input.feeCapSupra)} SUPRA exceeds the ${policy.maxFeeCapSupra} SUPRA limit per task`
+      });
+    }
+    if (policy.maxMonthlySpendSupra !== undefined && input.projectedMonthlySpendSupra > policy.maxMonthlySpendSupra) {
+      violations.push({
+        rule: 'MAX_MONTHLY_SPEND',
+        limit: policy.maxMonthlySpendSupra,
+        actual: round(input.projectedMonthlySpendSupra),
+        message: `Projected monthly spend would reach ${round(input.projectedMonthlySpendSupra)} SUPRA (limit ${policy.maxMonthlySpendSupra} SUPRA)`
+      });
+    }
+    const coinType = input.coinType && normalizeCoinType(input.coinType);
+    if (coinType && coinType !== SUPRA_COIN_TYPE) {
+      const symbol = input.coinSymbol ?? coinType;
+      const transfer = round(input.projectedMonthlyTransferInCoin ?? 0);
+      const limit = this.coinLimits.get(coinType);
+      if (limit !== undefined && transfer > limit) {
+        violations.push({
+          rule: 'MAX_MONTHLY_SPEND',
+          limit,
+          actual: transfer,
+          message: `Projected monthly transfers would reach ${transfer} ${symbol} (limit ${limit} ${symbol})`
+        });
+      } else if (limit === undefined && policy.maxMonthlySpendSupra !== undefined) {
+        violations.push({
+          rule: 'MAX_MONTHLY_SPEND',
+          limit: `no ${symbol} limit`,
+          actual: transfer,
+          message: `The ${policy.maxMonthlySpendSupra} SUPRA monthly limit does not cover ${symbol} and no monthly ${symbol} limit is set`
+        });
+      }
+    }
+    if (policy.minReserveSupra !== undefined && input.balanceAfterCommitmentSupra < policy.minReserveSupra) {
+      violations.push({
+        rule: 'MIN_RESERVE',
+        limit: policy.minReserveSupra,
+        actual: round(input.balanceAfterCommitmentSupra),
+        message: `Account "${input.fundingAccount}" would keep ${round(input.balanceAfterCommitmentSupra)} SUPRA after the fee cap and buffer, below its ${policy.minReserveSupra} SUPRA reserve`
+      });
+    }
+    if (input.fundingFloorSupra !== undefined) {
+      const required = round((policy.minReserveSupra ?? 0) + (input.committedFeeCapsSupra ?? 0));
+      if (input.fundingFloorSupra < required) {
+        violations.push({
+          rule: 'MIN_RESERVE',
+          limit: required,
+          actual: input.fundingFloorSupra,
+          message: `The strategy would leave ${input.fundingFloorSupra} SUPRA in account "${input.fundingAccount}", below the ${required} SUPRA its reserve and committed fee caps need`
+        });
+      }
+    }
+    return violations;
+  }
+
+  describe(): string[] {
+    const { policy } = this;
+    const rules: string[] = [];
+    if (policy.maxStrategiesPerAccount !== undefined) rules.push(`at most ${policy.maxStrategiesPerAccount} active strategies per account`);
+    if (policy.maxMonthlySpendSupra !== undefined) rules.push(`projected monthly spend up to ${policy.maxMonthlySpendSupra} SUPRA`);
+    for (const [coinType, limit] of this.coinLimits) rules.push(`monthly transfers of ${coinType} up to ${limit}`);
+    if (policy.maxFeeCapSupra !== undefined) rules.push(`fee cap up to ${policy.maxFeeCapSupra} SUPRA per task`);
+    if (policy.minReserveSupra !== undefined) rules.push(`keep ${policy.minReserveSupra} SUPRA in reserve on each funding account`);
+    if (this.allowed.size > 0) rules.push(`targets limited to ${this.allowed.size} allowed address(es)`);
+    if (this.denied.size > 0) rules.push(`${this.denied.size} denied target address(es)`);
+    return rules;
+  }
+}
+
+/**
+ * Reads `SUPRA_POLICY_*` variables. Target lists are comma separated, as are the `<coin type>=<limit>`
+ * pairs of the per-coin transfer limits; unset variables leave the corresponding limit off.
+ */
+export function loadSpendingPolicyFromEnv(env: NodeJS.ProcessEnv = process.env): SpendingPolicy {
+  const number = (key: string): number | undefined => {
+    const value = env[key];
+    if (value === undefined || value === '') return undefined;
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed < 0) {
+      throw new Error(`${key} must be a non-negative number`);
+    }
+    return parsed;
+  };
+  const list = (key: string): string[] | undefined => {
+    const items = env[key]?.split(',').map(item => item.trim()).filter(Boolean);
+    return items && items.length > 0 ? items : undefined;
+  };
+  const coinLimits = (key: string): Record<string, number> | undefined => {
+    const pairs = list(key);
+    if (!pairs) return undefined;
+    const limits: Record<string, number> = {};
+    for (const pair of pairs) {
+      const separator = pair.lastIndexOf('=');
+      const limit = Number(pair.slice(separator + 1));
+      if (separator <= 0 || pair.slice(separator + 1).trim() === '' || !Number.isFinite(limit) || limit < 0) {
+        throw new Error(`${key} must list <coin type>=<non-negative number> pairs`);
+      }
+      limits[normalizeCoinType(pair.slice(0, separator).trim())] = limit;
+    }
+    return limits;
+  };
+  return {
+    maxStrategiesPerAccount: number('SUPRA_POLICY_MAX_STRATEGIES_PER_ACCOUNT'),
+    maxMonthlySpendSupra: number('SUPRA_POLICY_MAX_MONTHLY_SPEND_SUPRA'),
+    maxFeeCapSupra: number('SUPRA_POLICY_MAX_FEE_CAP_SUPRA'),
+    allowedTargets: list('SUPRA_POLICY_ALLOWED_TARGETS'),
+    deniedTargets: list('SUPRA_POLICY_DENIED_TARGETS'),
+    minReserveSupra: number('SUPRA_POLICY_MIN_RESERVE_SUPRA'),
+    maxMonthlyTransferByCoin: coinLimits('SUPRA_POLICY_MAX_MONTHLY_TRANSFER_BY_COIN')
+  };
+}
@@ -0,0 +1,236 @@
+import { BCS, HexString } from 'supra-l1-sdk';
+import { AutomationStrategy, ScheduledTransferParameters } from './types';
+import { ScheduledTransferToolArgs } from './api-types';
+import { decodeAddressArg, decodeU64Arg, isValidAddress } from './automation-registry';
+import { fromBaseUnits, toBaseUnits } from './coin-metadata';
+import { FAILURE_ACTIONS, executionMovesCoin } from './event-indexer';
+import { RecordedRuns, StrategyTypeDefinition } from './strategy-types';
+
+export const SCHEDULE_INTERVALS: Record<string, number> = {
+  hourly: 1,
+  daily: 24,
+  weekly: 24 * 7
+};
+export const DEFAULT_SCHEDULE_INTERVAL = 'daily';
+export const PAYMENT_ACTION = 'scheduled_transfer_executed';
+const MIN_INTERVAL_SECS = 60;
+const HOUR_MS = 60 * 60 * 1000;
+
+function toUnixSecs(date: string | number): number {
+  return Math.floor(new Date(date).getTime() / 1000);
+}
+
+function formatInterval(hours: number): string {
+  const preset = Object.entries(SCHEDULE_INTERVALS).find(([, presetHours]) => presetHours === hours);
+  return preset ? preset[0] : `every ${hours}h`;
+}
+
+export interface ScheduleProgress {
+  paymentsMade: number;
+  lastPaymentAt?: Date;
+  nextPaymentDue?: Date;
+  complete: boolean;
+}
+
+/**
+ * Payments made so far and when the next one is due, following the contract's rule: the first
+ * payment at the start time, then one interval after the previous payment. Without the contract's
+ * own record (`get_schedule`) it falls back to the payments indexed so far.
+ */
+export function scheduleProgress(strategy: AutomationStrategy<ScheduledTransferParameters>, recorded?: RecordedRuns): ScheduleProgress {
+  const parameters = strategy.parameters;
+  const paymentsMade = recorded ? recorded.count : strategy.executionCount - strategy.failureCount;
+  const lastPaymentAt = recorded
+    ? recorded.lastRunAt
+    : [...strategy.executionHistory].reverse().find(r => r.action === PAYMENT_ACTION && r.success)?.timestamp;
+  if (parameters.maxPayments !== undefined && paymentsMade >= parameters.maxPayments) {
+    return { paymentsMade, lastPaymentAt, complete: true };
+  }
+  const nextPaymentDue = lastPaymentAt
+    ? new Date(lastPaymentAt.getTime() + parameters.intervalHours * HOUR_MS)
+    : new Date(parameters.startTimeSecs * 1000);
+  if (parameters.endTimeSecs !== undefined && nextPaymentDue.getTime() > parameters.endTimeSecs * 1000) {
+    return { paymentsMade, lastPaymentAt, complete: true };
+  }
+  return { paymentsMade, lastPaymentAt, nextPaymentDue, complete: false };
+}
+
+/** Pays a fixed amount to a recipient on a recurring interval, enforced by the contract. */
+export const scheduledTransferStrategy: StrategyTypeDefinition<ScheduledTransferParameters, ScheduledTransferToolArgs> = {
+  type: 'scheduled_transfer',
+  label: 'scheduled transfer',
+  idPrefix: 'schedule',
+  entryFunction: 'scheduled_transfer_coin',
+  tool: {
+    name: 'create_scheduled_transfer_strategy',
+    description: "Create a recurring transfer that pays a fixed amount of SUPRA or another coin to a recipient on an interval, optionally until an end date or a number of payments",
+    properties: {
+      recipientAddress: {
+        type: "string",
+        description: "32-byte hex address that receives the payments (must start with 0x)"
+      },
+      amountSupra: {
+        type: "number",
+        description: "Amount of the strategy's coin paid on each transfer"
+      },
+      interval: {
+        type: "string",
+        enum: Object.keys(SCHEDULE_INTERVALS),
+        description: `How often to pay (default ${DEFAULT_SCHEDULE_INTERVAL})`
+      },
+      intervalHours: {
+        type: "number",
+        description: "Custom interval in hours; overrides interval"
+      },
+      startDate: {
+        type: "string",
+        description: "ISO date or time of the first payment (default now)"
+      },
+      endDate: {
+        type: "string",
+        description: "ISO date or time after which no more payments are made"
+      },
+      maxPayments: {
+        type: "number",
+        description: "Stop after this many payments"
+      }
+    },
+    required: ["recipientAddress", "amountSupra"]
+  },
+  defaults: {},
+
+  fromToolArgs(args) {
+    return {
+      target: args.recipientAddress,
+      scheduleId: args.scheduleId ?? Date.now(),
+      amountSupra: args.amountSupra,
+      intervalHours: args.intervalHours ?? SCHEDULE_INTERVALS[args.interval ?? DEFAULT_SCHEDULE_INTERVAL],
+      startTimeSecs: args.startDate !== undefined ? toUnixSecs(args.startDate) : Math.floor(Date.now() / 1000),
+      endTimeSecs: args.endDate !== undefined ? toUnixSecs(args.endDate) : undefined,
+      maxPayments: args.maxPayments
+    };
+  },
+
+  validate(parameters) {
+    if (typeof parameters.target !== 'string' || !isValidAddress(parameters.target)) {
+      throw new Error(`Invalid address format: ${parameters.target}. Must be 0x followed by 64 hex characters.`);
+    }
+    if (!Number.isFinite(parameters.amountSupra) || parameters.amountSupra <= 0) {
+      throw new Error(`Invalid amount: ${parameters.amountSupra}. Must be a positive amount.`);
+    }
+    if (!Number.isFinite(parameters.intervalHours) || parameters.intervalHours * 3600 < MIN_INTERVAL_SECS) {
+      throw new Error(`Invalid interval: use ${Object.keys(SCHEDULE_INTERVALS).join(', ')} or intervalHours of at least ${MIN_INTERVAL_SECS / 60} minute.`);
+    }
+    if (!Number.isSafeInteger(parameters.startTimeSecs) || parameters.startTimeSecs < 0) {
+      throw new Error('Invalid start date. Use an ISO date such as 2025-01-31 or 2025-01-31T09:00:00Z.');
+    }
+    if (parameters.endTimeSecs !== undefined) {
+      if (!Number.isSafeInteger(parameters.endTimeSecs)) {
+        throw new Error('Invalid end date. Use an ISO date such as 2025-12-31.');
+      }
+      if (parameters.endTimeSecs <= parameters.startTimeSecs || parameters.endTimeSecs * 1000 <= Date.now()) {
+        throw new Error('End date must be in the future and after the start date.');
+      }
+    }
+    if (parameters.maxPayments !== undefined && (!Number.isInteger(parameters.maxPayments) || parameters.maxPayments < 1)) {
+      throw new Error(`Invalid maxPayments: ${parameters.maxPayments}. Must be a whole number of at least 1.`);
+    }
+  },
+
+  encodeArgs(parameters, coin) {
+    return [
+      new HexString(parameters.target).toUint8Array(),
+      BCS.bcsSerializeUint64(BigInt(parameters.scheduleId)),
+      BCS.bcsSerializeUint64(toBaseUnits(parameters.amountSupra, coin)),
+      BCS.bcsSerializeUint64(BigInt(Math.round(parameters.intervalHours * 3600))),
+      BCS.bcsSerializeUint64(BigInt(parameters.startTimeSecs)),
+      BCS.bcsSerializeUint64(BigInt(parameters.endTimeSecs ?? 0)),
+      BCS.bcsSerializeUint64(BigInt(parameters.maxPayments ?? 0))
+    ];
+  },
+
+  decodeTask(payload, coin) {
+    if ((payload.functionName !== 'scheduled_transfer_coin' && payload.functionName !== 'scheduled_transfer') || payload.args.length < 7) {
+      return null;
+    }
+    const endTimeSecs = Number(decodeU64Arg(payload.args[5]));
+    const maxPayments = Number(decodeU64Arg(payload.args[6]));
+    return {
+      target: decodeAddressArg(payload.args[0]),
+      scheduleId: Number(decodeU64Arg(payload.args[1])),
+      amountSupra: fromBaseUnits(decodeU64Arg(payload.args[2]), coin),
+      intervalHours: Number(decodeU64Arg(payload.args[3])) / 3600,
+      startTimeSecs: Number(decodeU64Arg(payload.args[4])),
+      endTimeSecs: endTimeSecs > 0 ? endTimeSecs : undefined,
+      maxPayments: maxPayments > 0 ? maxPayments : undefined
+    };
+  },
+
+  matchesExecution(parameters, execution, coin) {
+    return execution.eventType === 'ScheduledTransferEvent'
+      && execution.scheduleId === parameters.scheduleId
+      && executionMovesCoin(execution, coin.coinType);
+  },
+
+  monthlyTransfer(parameters) {
+    const payments = (30 * 24) / parameters.intervalHours;
+    return Math.min(payments, parameters.maxPayments ?? payments) * parameters.amountSupra;
+  },
+
+  executionEvents: { [PAYMENT_ACTION]: 'scheduledTransferExecuted' },
+
+  describe(parameters, coin) {
+    return `Scheduled transfer of ${parameters.amountSupra} ${coin.symbol} to ${parameters.target}, ${formatInterval(parameters.intervalHours)}`;
+  },
+
+  formatParameters(parameters, coin) {
+    const limits = [
+      parameters.maxPayments !== undefined ? `${parameters.maxPayments} payments` : undefined,
+      parameters.endTimeSecs !== undefined ? `until ${new Date(parameters.endTimeSecs * 1000).toISOString()}` : undefined
+    ].filter(Boolean);
+    return `${parameters.amountSupra} ${coin.symbol} ${formatInterval(parameters.intervalHours)}, ` +
+      `from ${new Date(parameters.startTimeSecs * 1000).toISOString()}${limits.length > 0 ? `, ${limits.join(', ')}` : ''}`;
+  },
+
+  async readRecordedRuns(parameters, fundingAddress, view) {
+    const [paymentsMade, lastPaymentTime] = await view('get_schedule', [fundingAddress, String(parameters.scheduleId)]);
+    return {
+      count: Number(paymentsMade),
+      lastRunAt: Number(lastPaymentTime) > 0 ? new Date(Number(lastPaymentTime) * 1000) : undefined
+    };
+  },
+
+  calculateHealth(strategy, _balance, coin, recorded) {
+    const progress = scheduleProgress(strategy, recorded);
+    const latest = [...strategy.executionHistory].reverse().find(r => r.action === PAYMENT_ACTION || FAILURE_ACTIONS.includes(r.action));
+    const base = { paymentsMade: progress.paymentsMade, nextPaymentDue: progress.nextPaymentDue };
+    if (progress.complete) {
+      return {
+        ...base,
+        status: 'healthy',
+        willTrigger: false,
+        recommendation: `Schedule complete after ${progress.paymentsMade} payment(s) - cancel the strategy to stop automation fees`
+      };
+    }
+    if (latest && !latest.success) {
+      return {
+        ...base,
+        status: 'payment_failed',
+        willTrigger: true,
+        recommendation: latest.action === 'insufficient_deployer_balance'
+          ? 'Last payment failed: the funding account cannot cover the amount - it is retried once the account is funded'
+          : `Last payment failed: the recipient is not registered for ${coin.symbol}`
+      };
+    }
+    return {
+      ...base,
+      status: 'healthy',
+      willTrigger: progress.nextPaymentDue!.getTime() <= Date.now(),
+      recommendation: `${progress.paymentsMade} payment(s) made; next ${strategy.parameters.amountSupra} ${coin.symbol} due ${progress.nextPaymentDue!.toISOString()}`
+    };
+  },
+
+  isComplete(strategy, recorded) {
+    return scheduleProgress(strategy, recorded).complete;
+  }
+};
@@ -0,0 +1,51 @@
+import readline from 'readline';
+import { Writable } from 'stream';
+
+/**
+ * Terminal output that can stop echoing while a secret is typed. Readline interfaces that may
+ * ask for secrets are created with one of these as their `output`.
+ */
+export class MutableOutput extends Writable {
+  muted = false;
+
+  constructor(private target: NodeJS.WriteStream = process.stdout) {
+    super();
+  }
+
+  get isTTY(): boolean {
+    return this.target.isTTY;
+  }
+
+  get columns(): number {
+    return this.target.columns;
+  }
+
+  _write(chunk: any, encoding: BufferEncoding, callback: (error?: Error | null) => void): void {
+    if (this.muted) {
+      callback();
+    } else {
+      this.target.write(chunk, encoding, callback);
+    }
+  }
+}
+
+/**
+ * Asks for a secret without echoing it. Pass the CLI's own readline interface and its output while
+ * it is open: a second interface on stdin would also receive the typed line.
+ */
+export function promptSecret(question: string, existing?: { rl: readline.Interface; output: MutableOutput }): Promise<string> {
+  const output = existing?.output ?? new MutableOutput(process.stderr);
+  const rl = existing?.rl ?? readline.createInterface({ input: process.stdin, output, terminal: true });
+  const previousPrompt = rl.getPrompt();
+  output.write(question);
+  output.muted = true;
+  return new Promise(resolve => {
+    rl.question('', answer => {
+      output.muted = false;
+      rl.setPrompt(previousPrompt);
+      output.write('\n');
+      if (!existing) rl.close();
+      resolve(answer);
+    });
+  });
+}
@@ -0,0 +1,120 @@
+import fs from 'fs';
+import path from 'path';
+import { ConversationSnapshot } from './conversation-memory';
+
+export interface ChatSession {
+  name: string;
+  createdAt: Date;
+  updatedAt: Date;
+  conversation: ConversationSnapshot;
+  notifications: string[];
+  commandCount: number;
+}
+
+export interface SessionSummary {
+  name: string;
+  updatedAt: Date;
+  commandCount: number;
+  turns: number;
+}
+
+const SESSION_VERSION = 1;
+const LAST_SESSION_FILE = '.last-session';
+const SESSION_NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export function isValidSessionName(name: string): boolean {
+  return SESSION_NAME_PATTERN.test(name);
+}
+
+export function defaultSessionName(now: Date = new Date()): string {
+  return `session-${now.toISOString().slice(0, 19).replace(/[-:]/g, '').replace('T', '-')}`;
+}
+
+function deserializeSession(raw: any): ChatSession {
+  return {
+    name: raw.name,
+    createdAt: new Date(raw.createdAt),
+    updatedAt: new Date(raw.updatedAt),
+    conversation: raw.conversation ?? { summary: '', turns: [] },
+    notifications: raw.notifications ?? [],
+    commandCount: raw.commandCount ?? 0
+  };
+}
+
+export class JsonFileSessionStore {
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private directory: string) {}
+
+  async list(): Promise<SessionSummary[]> {
+    let files: string[];
+    try {
+      files = await fs.promises.readdir(this.directory);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+    const summaries: SessionSummary[] = [];
+    for (const file of files.filter(f => f.endsWith('.json'))) {
+      const session = await this.load(file.slice(0, -'.json'.length));
+      if (!session) continue;
+      summaries.push({
+        name: session.name,
+        updatedAt: session.updatedAt,
+        commandCount: session.commandCount,
+        turns: session.conversation.turns.length
+      });
+    }
+    return summaries.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  async load(name: string): Promise<ChatSession | null> {
+    this.assertValidName(name);
+    try {
+      const contents = await fs.promises.readFile(this.sessionPath(name), 'utf8');
+      return deserializeSession(JSON.parse(contents));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw new Error(`Failed to read session ${name}: ${error.message}`);
+    }
+  }
+
+  save(session: ChatSession): Promise<void> {
+    this.assertValidName(session.name);
+    const write = async () => {
+      const payload = JSON.stringify({
+        version: SESSION_VERSION,
+        ...session,
+        createdAt: session.createdAt.toISOString(),
+        updatedAt: session.updatedAt.toISOString()
+      }, null, 2);
+      await fs.promises.mkdir(this.directory, { recursive: true });
+      const filePath = this.sessionPath(session.name);
+      await fs.promises.writeFile(`${filePath}.tmp`, payload, 'utf8');
+      await fs.promises.rename(`${filePath}.tmp`, filePath);
+      await fs.promises.writeFile(path.join(this.directory, LAST_SESSION_FILE), session.name, 'utf8');
+    };
+    this.writeQueue = this.writeQueue.then(write, write);
+    return this.writeQueue;
+  }
+
+  async getLastSessionName(): Promise<string | null> {
+    try {
+      const name = (await fs.promises.readFile(path.join(this.directory, LAST_SESSION_FILE), 'utf8')).trim();
+      return isValidSessionName(name) ? name : null;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  private sessionPath(name: string): string {
+    return path.join(this.directory, `${name}.json`);
+  }
+
+  private assertValidName(name: string): void {
+    if (!isValidSessionName(name)) {
+      throw new Error(`Invalid session name "${name}": use letters, digits, "-" or "_" (max 64 characters)`);
+    }
+  }
+}
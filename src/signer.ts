@@ -0,0 +1,25 @@
+import { SupraAccount } from 'supra-l1-sdk';
+
+/**
+ * Anything that can sign Supra transactions. The agent and the chain gateways only see this
+ * interface, so keys can live in an unlocked keystore entry, a hardware wallet or a remote signer.
+ */
+export interface TransactionSigner {
+  readonly address: string;
+  readonly publicKey: string;
+  signMessage(message: Uint8Array): Promise<Uint8Array>;
+}
+
+export class AccountSigner implements TransactionSigner {
+  readonly address: string;
+  readonly publicKey: string;
+
+  constructor(private account: SupraAccount) {
+    this.address = account.address().toString();
+    this.publicKey = account.pubKey().toString();
+  }
+
+  async signMessage(message: Uint8Array): Promise<Uint8Array> {
+    return this.account.signBuffer(message).toUint8Array();
+  }
+}
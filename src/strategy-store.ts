@@ -0,0 +1,137 @@
+import fs from 'fs';
+import path from 'path';
+import { AutomationStrategy, ExecutionRecord } from './types';
+
+export interface StrategyStore {
+  load(): Promise<AutomationStrategy[]>;
+  save(strategy: AutomationStrategy): Promise<void>;
+  delete(strategyId: string): Promise<void>;
+}
+
+const STORE_VERSION = 1;
+
+export function serializeStrategy(strategy: AutomationStrategy): any {
+  return {
+    ...strategy,
+    createdAt: strategy.createdAt.toISOString(),
+    lastChecked: strategy.lastChecked?.toISOString(),
+    lastReconciledAt: strategy.lastReconciledAt?.toISOString(),
+    cancelledAt: strategy.cancelledAt?.toISOString(),
+    expiresAt: strategy.expiresAt?.toISOString(),
+    renewedAt: strategy.renewedAt?.toISOString(),
+    totalTransferred: strategy.totalTransferred.toString(),
+    lastExecution: strategy.lastExecution && {
+      ...strategy.lastExecution,
+      timestamp: strategy.lastExecution.timestamp.toISOString()
+    },
+    executionHistory: strategy.executionHistory.map((record: ExecutionRecord) => ({
+      ...record,
+      timestamp: record.timestamp.toISOString(),
+      amount: record.amount.toString(),
+      fee: record.fee.toString()
+    }))
+  };
+}
+
+export function deserializeStrategy(raw: any): AutomationStrategy {
+  return {
+    ...raw,
+    createdAt: new Date(raw.createdAt),
+    lastChecked: raw.lastChecked ? new Date(raw.lastChecked) : undefined,
+    lastReconciledAt: raw.lastReconciledAt ? new Date(raw.lastReconciledAt) : undefined,
+    cancelledAt: raw.cancelledAt ? new Date(raw.cancelledAt) : undefined,
+    expiresAt: raw.expiresAt ? new Date(raw.expiresAt) : undefined,
+    renewedAt: raw.renewedAt ? new Date(raw.renewedAt) : undefined,
+    totalTransferred: BigInt(raw.totalTransferred ?? 0),
+    // Older stores also saved a gasUsed that was never measured; it is dropped on load.
+    lastExecution: raw.lastExecution && {
+      timestamp: new Date(raw.lastExecution.timestamp),
+      success: raw.lastExecution.success
+    },
+    executionHistory: (raw.executionHistory ?? []).map((record: any) => ({
+      ...record,
+      timestamp: new Date(record.timestamp),
+      amount: BigInt(record.amount ?? 0),
+      fee: BigInt(record.fee ?? 0)
+    }))
+  };
+}
+
+export class InMemoryStrategyStore implements StrategyStore {
+  private records: Map<string, any> = new Map();
+
+  constructor(initial: AutomationStrategy[] = []) {
+    initial.forEach(strategy => this.records.set(strategy.id, serializeStrategy(strategy)));
+  }
+
+  async load(): Promise<AutomationStrategy[]> {
+    return Array.from(this.records.values()).map(deserializeStrategy);
+  }
+
+  async save(strategy: AutomationStrategy): Promise<void> {
+    this.records.set(strategy.id, serializeStrategy(strategy));
+  }
+
+  async delete(strategyId: string): Promise<void> {
+    this.records.delete(strategyId);
+  }
+}
+
+export class JsonFileStrategyStore implements StrategyStore {
+  private records: Map<string, any> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  async load(): Promise<AutomationStrategy[]> {
+    const records = await this.readRecords();
+    return Array.from(records.values()).map(deserializeStrategy);
+  }
+
+  async save(strategy: AutomationStrategy): Promise<void> {
+    const records = await this.readRecords();
+    records.set(strategy.id, serializeStrategy(strategy));
+    await this.flush();
+  }
+
+  async delete(strategyId: string): Promise<void> {
+    const records = await this.readRecords();
+    if (records.delete(strategyId)) {
+      await this.flush();
+    }
+  }
+
+  private async readRecords(): Promise<Map<string, any>> {
+    if (this.records) return this.records;
+    const records = new Map<string, any>();
+    try {
+      const contents = await fs.promises.readFile(this.filePath, 'utf8');
+      const parsed = JSON.parse(contents);
+      for (const raw of parsed.strategies ?? []) {
+        records.set(raw.id, raw);
+      }
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw new Error(`Failed to read strategy store ${this.filePath}: ${error.message}`);
+      }
+    }
+    this.records = records;
+    return records;
+  }
+
+  private flush(): Promise<void> {
+    const write = async () => {
+      const payload = JSON.stringify({
+        version: STORE_VERSION,
+        updatedAt: new Date().toISOString(),
+        strategies: Array.from(this.records!.values())
+      }, null, 2);
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.promises.writeFile(tempPath, payload, 'utf8');
+      await fs.promises.rename(tempPath, this.filePath);
+    };
+    this.writeQueue = this.writeQueue.then(write, write);
+    return this.writeQueue;
+  }
+}
@@ -0,0 +1,143 @@
+import { AutomationStrategy, StrategyParameters } from './types';
+import { CreateStrategyTool, HealthStatus } from './api-types';
+import { DecodedEntryFunction } from './automation-registry';
+import { CoinInfo } from './coin-metadata';
+import { IndexedExecution } from './event-indexer';
+import { LLMToolDefinition } from './llm-provider';
+import { autoTopupStrategy } from './auto-topup-strategy';
+import { scheduledTransferStrategy } from './scheduled-transfer-strategy';
+import { sweepExcessStrategy } from './sweep-excess-strategy';
+
+/** Calls a view function of the agent's Move module by name, e.g. `get_schedule`. */
+export type ModuleViewCall = (functionName: string, args: string[]) => Promise<any[]>;
+
+/** Runs the contract itself recorded for a strategy; indexed events miss runs outside the indexed blocks. */
+export interface RecordedRuns {
+  count: number;
+  lastRunAt?: Date;
+}
+
+/**
+ * Everything the agent needs to offer, register, import and monitor one kind of strategy. The
+ * agent adds the fields shared by all types (strategy name, funding account, coin, lifetime) to the
+ * tool. Amount parameters are whole units of the strategy's coin; `coin` gives its decimals.
+ */
+export interface StrategyTypeDefinition<P extends StrategyParameters = StrategyParameters, A extends object = Record<string, any>> {
+  type: string;
+  label: string;
+  idPrefix: string;
+  /** Entry function in the agent's Move module that the automation task calls, generic over the coin type. */
+  entryFunction: string;
+  tool: {
+    name: CreateStrategyTool;
+    description: string;
+    properties: Record<string, unknown>;
+    required: string[];
+  };
+  /** Also applied to stored strategies saved before a parameter existed. */
+  defaults: Partial<P>;
+  /** Tool calls arrive as untyped JSON, so `validate` checks what this returns. */
+  fromToolArgs(args: A): P;
+  validate(parameters: P): void;
+  encodeArgs(parameters: P, coin: CoinInfo): Uint8Array[];
+  /** Parameters of an on-chain task registered by this type, or null if the payload is not one. */
+  decodeTask(payload: DecodedEntryFunction, coin: CoinInfo): P | null;
+  /** Whether an indexed on-chain execution was produced by a strategy with these parameters moving `coin`. */
+  matchesExecution(parameters: P, execution: IndexedExecution, coin: CoinInfo): boolean;
+  /**
+   * Coins the strategy transfers in 30 days whatever the balances, in whole units; the spending
+   * policy counts it for new strategies. Types that only react to balances leave it out.
+   */
+  monthlyTransfer?(parameters: P): number;
+  /**
+   * Agent event emitted for an indexed execution, keyed by its action (e.g. `topup_executed` →
+   * `topupExecuted`). The keys are the type's transfer actions, which analytics count.
+   */
+  executionEvents?: Record<string, string>;
+  /** True when the transfers return coins to the owner, so analytics count them as sweeps and the cost model not as spend. */
+  returnsFunds?: boolean;
+  describe(parameters: P, coin: CoinInfo): string;
+  formatParameters(parameters: P, coin: CoinInfo): string;
+  /** Balance, in whole units of the strategy's coin, the strategy leaves in its funding account; omitted when it leaves no floor. */
+  fundingFloor?(parameters: P): number;
+  /** Address whose balance health checks and alerts read; the target when omitted. */
+  balanceAddress?(parameters: P, fundingAddress: string): string;
+  /** Reads what the contract recorded for the strategy; passed to `calculateHealth` and `isComplete` when available. */
+  readRecordedRuns?(parameters: P, fundingAddress: string, view: ModuleViewCall): Promise<RecordedRuns>;
+  calculateHealth(strategy: AutomationStrategy<P>, balance: bigint, coin: CoinInfo, recorded?: RecordedRuns): HealthStatus;
+  /** Message raised by the periodic check when the target balance needs attention. */
+  balanceAlert?(strategy: AutomationStrategy<P>, balance: bigint, coin: CoinInfo): string | undefined;
+  /** True once the strategy has nothing left to do, so its task is no longer renewed. */
+  isComplete?(strategy: AutomationStrategy<P>, recorded?: RecordedRuns): boolean;
+}
+
+export class StrategyTypeRegistry {
+  private types: Map<string, StrategyTypeDefinition<any, any>> = new Map();
+
+  register<P extends StrategyParameters, A extends object>(definition: StrategyTypeDefinition<P, A>): this {
+    if (this.types.has(definition.type)) {
+      throw new Error(`Strategy type "${definition.type}" is already registered`);
+    }
+    if (this.byTool(definition.tool.name)) {
+      throw new Error(`Tool ${definition.tool.name} is already used by another strategy type`);
+    }
+    this.types.set(definition.type, definition);
+    return this;
+  }
+
+  get(type: string): StrategyTypeDefinition | undefined {
+    return this.types.get(type);
+  }
+
+  require(type: string): StrategyTypeDefinition {
+    const definition = this.types.get(type);
+    if (!definition) {
+      throw new Error(`Unknown strategy type "${type}". Registered types: ${this.names().join(', ') || 'none'}`);
+    }
+    return definition;
+  }
+
+  byTool(toolName: string): StrategyTypeDefinition | undefined {
+    return this.list().find(d => d.tool.name === toolName);
+  }
+
+  /** Finds the type that registered an on-chain task from its decoded payload. */
+  decodeTask(payload: DecodedEntryFunction, coin: CoinInfo): { definition: StrategyTypeDefinition; parameters: StrategyParameters } | null {
+    for (const definition of this.types.values()) {
+      const parameters = definition.decodeTask(payload, coin);
+      if (parameters) return { definition, parameters };
+    }
+    return null;
+  }
+
+  toolDefinitions(commonProperties: Record<string, unknown>): LLMToolDefinition[] {
+    return this.list().map(d => ({
+      name: d.tool.name,
+      description: d.tool.description,
+      parameters: {
+        type: "object",
+        properties: {
+          strategyName: { type: "string", description: "Human readable name for the strategy (e.g., 'Trading Wallet Auto-Fund')" },
+          ...d.tool.properties,
+          ...commonProperties
+        },
+        required: ["strategyName", ...d.tool.required]
+      }
+    }));
+  }
+
+  list(): StrategyTypeDefinition[] {
+    return Array.from(this.types.values());
+  }
+
+  names(): string[] {
+    return Array.from(this.types.keys());
+  }
+}
+
+export function createDefaultStrategyTypes(): StrategyTypeRegistry {
+  return new StrategyTypeRegistry()
+    .register(autoTopupStrategy)
+    .register(scheduledTransferStrategy)
+    .register(sweepExcessStrategy);
+}
@@ -0,0 +1,318 @@
+import { Console } from 'console';
+import { PassThrough } from 'stream';
+import { SupraAccount } from 'supra-l1-sdk';
+import { SupraSuperAgent } from './super-agent';
+import { SupraSimulator } from './supra-simulator';
+import { AccountSigner } from './signer';
+import { LLMProvider, MockLLMProvider } from './llm-provider';
+import { SpendingPolicy } from './policy-engine';
+import { decodeU64Arg } from './automation-registry';
+import { InMemoryStrategyStore, StrategyStore } from './strategy-store';
+import { ScheduledTransferParameters } from './types';
+import { CreateStrategyRequest, ScheduledTransferToolArgs, SweepExcessToolArgs } from './api-types';
+
+const EPOCH_SECS = 60;
+const quiet = new Console(new PassThrough());
+
+function setup() {
+  const deployer = new SupraAccount();
+  const target = new SupraAccount().address().toString();
+  const contractAddress = deployer.address().toString();
+  const chain = new SupraSimulator({ contractAddress, epochIntervalSecs: EPOCH_SECS });
+  chain.fund(contractAddress, BigInt(10_000_000_000));
+  chain.fund(target, BigInt(100_000_000));
+  const newAgent = (llm?: LLMProvider, spendingPolicy?: SpendingPolicy, strategyStore?: StrategyStore) => new SupraSuperAgent({
+    chain,
+    llm,
+    signer: new AccountSigner(deployer),
+    contractAddress,
+    modulePrefix: 'autofinal',
+    spendingPolicy,
+    strategyStore,
+    logger: quiet
+  });
+  return { chain, target, contractAddress, newAgent };
+}
+
+async function createTopup(agent: SupraSuperAgent, target: string): Promise<string> {
+  const result = await agent.createAutoTopupStrategy({ strategyName: 'Ops wallet', targetAddress: target, thresholdSupra: 200, topupAmountSupra: 50 });
+  if (!result.success || result.mode !== 'LIVE') throw new Error(result.message);
+  return result.strategyId;
+}
+
+describe('SupraSuperAgent on the simulator', () => {
+  it('creates a strategy, indexes its executions and cancels it', async () => {
+    const { chain, target, newAgent } = setup();
+    const agent = newAgent();
+    const strategyId = await createTopup(agent, target);
+    const [task] = chain.getTasks();
+    expect(task.state).toBe('pending');
+
+    chain.advanceTime(EPOCH_SECS + 5);
+    const sync = await agent.syncExecutionEvents();
+    expect(sync.processed).toBeGreaterThan(0);
+    expect(chain.balanceOf(target)).toBeGreaterThanOrEqual(BigInt(200_000_000));
+    const status = await agent.checkStrategyStatus(strategyId);
+    expect(status.success).toBe(true);
+
+    const cancel = await agent.cancelStrategy(strategyId);
+    expect(cancel.success).toBe(true);
+    expect(chain.getTasks()[0].state).toBe('cancelled');
+    expect(agent.listActiveStrategies().strategies).toHaveLength(0);
+  });
+
+  it('renews a strategy onto a new task', async () => {
+    const { chain, target, newAgent } = setup();
+    const agent = newAgent();
+    const strategyId = await createTopup(agent, target);
+    const [original] = chain.getTasks();
+
+    const renewal = await agent.renewStrategy(strategyId, 48);
+    if (!renewal.success || renewal.mode !== 'LIVE') throw new Error(renewal.message);
+    expect(renewal.previousTaskId).toBe(original.taskIndex);
+    expect(renewal.taskId).not.toBe(original.taskIndex);
+    expect(chain.getTasks()).toHaveLength(2);
+
+    const [summary] = agent.listActiveStrategies().strategies;
+    expect(summary.taskId).toBe(renewal.taskId);
+    expect(summary.expiresAt!.getTime()).toBeGreaterThan(Date.now() + 47 * 60 * 60 * 1000);
+
+    // The old task keeps running until the renewed one is active.
+    await agent.reconcileStrategies();
+    expect(chain.getTasks()[0].state).not.toBe('cancelled');
+    chain.advanceTime(EPOCH_SECS + 5);
+    await agent.reconcileStrategies();
+    expect(chain.getTasks().map(t => t.state)).toEqual(['cancelled', 'active']);
+  });
+
+  it('leaves the strategy being renewed out of the policy counts', async () => {
+    const { target, newAgent } = setup();
+    const agent = newAgent(undefined, { maxStrategiesPerAccount: 1 });
+    const strategyId = await createTopup(agent, target);
+
+    const renewal = await agent.renewStrategy(strategyId, 48);
+    expect(renewal).toMatchObject({ success: true, mode: 'LIVE' });
+    const second = await agent.createAutoTopupStrategy({ strategyName: 'Second', targetAddress: target, thresholdSupra: 200, topupAmountSupra: 50 });
+    expect(second).toMatchObject({ success: false, violations: [expect.objectContaining({ rule: 'MAX_STRATEGIES_PER_ACCOUNT' })] });
+  });
+
+  it('keeps superseded tasks to retire when their lookup fails during a cancel', async () => {
+    const { chain, target, newAgent } = setup();
+    const agent = newAgent();
+    const strategyId = await createTopup(agent, target);
+    await agent.renewStrategy(strategyId, 48);
+
+    const view = chain.view.bind(chain);
+    const failingLookup = jest.spyOn(chain, 'view').mockImplementation(async (functionId, typeArgs, args) => {
+      if (functionId.endsWith('::get_task_details_bulk')) throw new Error('RPC unavailable');
+      return view(functionId, typeArgs, args);
+    });
+    expect(await agent.cancelStrategy(strategyId)).toMatchObject({ success: true });
+    expect(chain.getTasks().map(t => t.state)).toEqual(['pending', 'cancelled']);
+    failingLookup.mockRestore();
+
+    await agent.runPeriodicCheck();
+    expect(chain.getTasks().map(t => t.state)).toEqual(['cancelled', 'cancelled']);
+  });
+
+  it('imports tasks it does not know and deactivates strategies whose task was cancelled', async () => {
+    const { chain, target, newAgent } = setup();
+    const creator = newAgent();
+    const strategyId = await createTopup(creator, target);
+    const [task] = chain.getTasks();
+
+    // A second agent with an empty store sees the task only on-chain.
+    const observer = newAgent();
+    const first = await observer.reconcileStrategies();
+    if (!first.success) throw new Error(first.message);
+    expect(first.imported).toEqual([expect.objectContaining({ taskId: task.taskIndex, target })]);
+
+    await creator.cancelStrategy(strategyId);
+    const second = await observer.reconcileStrategies();
+    if (!second.success) throw new Error(second.message);
+    expect(second.flagged).toEqual([expect.objectContaining({ taskId: task.taskIndex, chainStatus: 'cancelled', deactivated: true })]);
+    expect(observer.listActiveStrategies().strategies).toHaveLength(0);
+  });
+});
+
+describe('coins named in contract events', () => {
+  const USDC = '0x5::usdc::USDC';
+
+  it('attributes executions to the strategy moving the coin the event names', async () => {
+    const { chain, target, contractAddress, newAgent } = setup();
+    chain.registerCoinInfo(USDC, 'USDC', 6);
+    chain.fund(contractAddress, BigInt(1_000_000_000), USDC);
+    chain.fund(target, BigInt(0), USDC);
+    const agent = newAgent();
+    const supraId = await createTopup(agent, target);
+    const usdc = await agent.createAutoTopupStrategy({ strategyName: 'Ops USDC', targetAddress: target, thresholdSupra: 10, topupAmountSupra: 5, coinType: USDC });
+    if (!usdc.success || usdc.mode !== 'LIVE') throw new Error(usdc.message);
+
+    chain.advanceTime(EPOCH_SECS + 5);
+    await agent.syncExecutionEvents();
+    const amounts = async (strategyId: string) => {
+      const status = await agent.checkStrategyStatus(strategyId);
+      if (!status.success || !('strategy' in status)) throw new Error('status failed');
+      return status.strategy.executionHistory.filter(r => r.action === 'topup_executed').map(r => r.amount);
+    };
+    const supraTopups = await amounts(supraId);
+    const usdcTopups = await amounts(usdc.strategyId);
+    expect(supraTopups.length).toBeGreaterThan(0);
+    expect(usdcTopups.length).toBeGreaterThan(0);
+    expect(new Set(supraTopups)).toEqual(new Set([BigInt(50_000_000)]));
+    expect(new Set(usdcTopups)).toEqual(new Set([BigInt(5_000_000)]));
+  });
+});
+
+describe('analytics', () => {
+  it('leaves out strategies whose coin metadata cannot be loaded', async () => {
+    const { chain, target, contractAddress, newAgent } = setup();
+    const USDC = '0x5::usdc::USDC';
+    chain.registerCoinInfo(USDC, 'USDC', 6);
+    chain.fund(contractAddress, BigInt(1_000_000_000), USDC);
+    chain.fund(target, BigInt(0), USDC);
+    const store = new InMemoryStrategyStore();
+    const created = await newAgent(undefined, undefined, store)
+      .createAutoTopupStrategy({ strategyName: 'Ops USDC', targetAddress: target, thresholdSupra: 10, topupAmountSupra: 5, coinType: USDC });
+    if (!created.success || created.mode !== 'LIVE') throw new Error(created.message);
+
+    const view = chain.view.bind(chain);
+    jest.spyOn(chain, 'view').mockImplementation(async (functionId, typeArgs, args) => {
+      if (functionId.startsWith('0x1::coin::')) throw new Error('RPC unavailable');
+      return view(functionId, typeArgs, args);
+    });
+    const result = await newAgent(undefined, undefined, store).generateAnalytics('24h');
+    if (!result.success) throw new Error(result.message);
+    expect(result.analytics.unresolvedStrategyIds).toEqual([created.strategyId]);
+    expect(result.analytics.strategies).toHaveLength(0);
+  });
+});
+
+describe('scheduled transfers', () => {
+  const schedule = (target: string): CreateStrategyRequest<ScheduledTransferToolArgs> => ({
+    strategyName: 'Payroll', recipientAddress: target, amountSupra: 10, interval: 'daily'
+  });
+
+  it('counts the payments a new schedule commits to toward the monthly spend limit', async () => {
+    const { target, newAgent } = setup();
+    const result = await newAgent(undefined, { maxMonthlySpendSupra: 200 }).createStrategy('scheduled_transfer', schedule(target));
+    expect(result).toMatchObject({ success: false, error: 'POLICY_VIOLATION', violations: [expect.objectContaining({ rule: 'MAX_MONTHLY_SPEND' })] });
+  });
+
+  it('limits schedules of other coins per coin instead of exempting them', async () => {
+    const { chain, target, newAgent } = setup();
+    const USDC = '0x5::usdc::USDC';
+    chain.registerCoinInfo(USDC, 'USDC', 6);
+    const request = { ...schedule(target), coinType: USDC };
+
+    const uncovered = await newAgent(undefined, { maxMonthlySpendSupra: 5000 }).createStrategy('scheduled_transfer', request);
+    expect(uncovered).toMatchObject({ success: false, violations: [expect.objectContaining({ rule: 'MAX_MONTHLY_SPEND', limit: 'no USDC limit' })] });
+    const overLimit = await newAgent(undefined, { maxMonthlyTransferByCoin: { [USDC]: 200 } }).createStrategy('scheduled_transfer', request);
+    expect(overLimit).toMatchObject({ success: false, violations: [expect.objectContaining({ rule: 'MAX_MONTHLY_SPEND', limit: 200, actual: 300 })] });
+    expect(chain.getTasks()).toHaveLength(0);
+  });
+
+  it('reports the payments the contract recorded, including ones never indexed', async () => {
+    const { chain, target, newAgent } = setup();
+    const agent = newAgent();
+    const result = await agent.createStrategy('scheduled_transfer', schedule(target));
+    if (!result.success || result.mode !== 'LIVE') throw new Error(result.message);
+    chain.advanceTime(EPOCH_SECS + 5);
+
+    const status = await agent.checkStrategyStatus(result.strategyId);
+    if (!status.success || !('strategy' in status)) throw new Error('status failed');
+    expect(status.strategy.executionCount).toBe(0);
+    expect(status.strategy.healthStatus.paymentsMade).toBe(1);
+  });
+
+  it('counts payments as top-ups in analytics', async () => {
+    const { chain, target, newAgent } = setup();
+    const agent = newAgent();
+    const result = await agent.createStrategy('scheduled_transfer', schedule(target));
+    if (!result.success || result.mode !== 'LIVE') throw new Error(result.message);
+    chain.advanceTime(EPOCH_SECS + 5);
+    // The payment is stamped with simulator time, which is now ahead of the clock the window ends at.
+    jest.useFakeTimers({ now: Date.now() + 2 * EPOCH_SECS * 1000, doNotFake: ['nextTick', 'setImmediate', 'setTimeout', 'setInterval', 'queueMicrotask'] });
+    try {
+      const analytics = await agent.generateAnalytics('24h');
+      if (!analytics.success) throw new Error(analytics.message);
+      expect(analytics.analytics.overview).toMatchObject({ topups: 1, sweeps: 0, supraTransferred: 10 });
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+describe('excess sweeps', () => {
+  it('refuses a ceiling that would leave the funding account unable to pay its fee caps', async () => {
+    const { chain, target, newAgent } = setup();
+    const request: CreateStrategyRequest<SweepExcessToolArgs> = { strategyName: 'Hot wallet', treasuryAddress: target, ceilingSupra: 1 };
+    const result = await newAgent().createStrategy('sweep_excess', request);
+    expect(result).toMatchObject({ success: false, error: 'POLICY_VIOLATION', violations: [expect.objectContaining({ rule: 'MIN_RESERVE', actual: 1 })] });
+    expect(chain.getTasks()).toHaveLength(0);
+  });
+});
+
+describe('chat confirmation gate', () => {
+  const createCall = (target: string) => ({
+    toolCalls: [{ name: 'create_auto_topup_strategy', arguments: { strategyName: 'Ops wallet', targetAddress: target, thresholdSupra: 200 } }]
+  });
+
+  it('queues a strategy the model asks for and deploys it only once confirmed', async () => {
+    const { chain, target, newAgent } = setup();
+    const llm = new MockLLMProvider([createCall(target), { content: 'Type `confirm` to deploy it.' }]);
+    const agent = newAgent(llm);
+
+    await agent.chat('Keep my ops wallet above 200 SUPRA');
+    const toolResult = llm.requests[1].messages.find(m => m.role === 'tool')!;
+    expect(JSON.parse(toolResult.content!)).toMatchObject({ status: 'PENDING_CONFIRMATION', actionId: 'action_1' });
+    expect(agent.getPendingActions()).toHaveLength(1);
+    expect(chain.getTasks()).toHaveLength(0);
+
+    const result = await agent.confirmAction();
+    expect(result).toMatchObject({ success: true, mode: 'LIVE' });
+    expect(agent.getPendingActions()).toHaveLength(0);
+    expect(chain.getTasks()).toHaveLength(1);
+    expect(agent.listActiveStrategies().strategies).toEqual([expect.objectContaining({ name: 'Ops wallet' })]);
+  });
+
+  it('stores the schedule id of the registration it confirmed', async () => {
+    const { chain, target, newAgent } = setup();
+    const agent = newAgent(new MockLLMProvider([
+      { toolCalls: [{ name: 'create_scheduled_transfer_strategy', arguments: { strategyName: 'Payroll', recipientAddress: target, amountSupra: 10 } }] },
+      { content: 'Type `confirm` to deploy it.' }
+    ]));
+
+    await agent.chat('Pay 10 SUPRA a day');
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const result = await agent.confirmAction();
+    if (!result.success || !('strategyId' in result)) throw new Error(result.message);
+    const [task] = chain.getTasks();
+    const status = await agent.checkStrategyStatus(result.strategyId);
+    if (!status.success || !('strategy' in status)) throw new Error('status failed');
+    expect((status.strategy.parameters as ScheduledTransferParameters).scheduleId).toBe(Number(decodeU64Arg(task.call.args[1])));
+  });
+
+  it('keeps the action pending when its registration cannot be checked', async () => {
+    const { chain, target, newAgent } = setup();
+    const agent = newAgent(new MockLLMProvider([createCall(target), { content: 'Type `confirm` to deploy it.' }]));
+
+    await agent.chat('Keep my ops wallet above 200 SUPRA');
+    jest.spyOn(chain, 'getAccountInfo').mockRejectedValueOnce(new Error('RPC unavailable'));
+    const result = await agent.confirmAction();
+    expect(result).toMatchObject({ success: false, error: 'RPC unavailable' });
+    expect(agent.getPendingActions()).toHaveLength(1);
+    expect(await agent.confirmAction()).toMatchObject({ success: true, mode: 'LIVE' });
+  });
+
+  it('refuses to send a prepared registration once the account has moved on', async () => {
+    const { chain, target, newAgent } = setup();
+    const agent = newAgent(new MockLLMProvider([createCall(target), { content: 'Type `confirm` to deploy it.' }]));
+
+    await agent.chat('Keep my ops wallet above 200 SUPRA');
+    await createTopup(agent, target);
+    const result = await agent.confirmAction();
+    expect(result).toMatchObject({ success: false, error: 'ACTION_STALE' });
+    expect(chain.getTasks()).toHaveLength(1);
+  });
+});
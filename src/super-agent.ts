@@ -1,68 +1,156 @@
-import { SupraClient, SupraAccount, HexString } from 'supra-l1-sdk';
-import OpenAI from 'openai';
+import { SupraClient, HexString, BCS, TransactionStatus, TxnBuilderTypes } from 'supra-l1-sdk';
 import dotenv from 'dotenv';
 import EventEmitter from 'events';
+import { AgentMode, AutomationStrategy, ExecutionRecord, StrategyParameters, TransactionConfirmation } from './types';
+import { TIMEFRAMES, buildTimeframeAnalytics, deriveRecommendations } from './analytics';
+import { CostModelInputs, CostedStrategy, MonthlyCostProjection, projectMonthlyCost } from './cost-model';
+import { toMicroSupra, toSupra } from './accounting';
+import { StrategyStore, InMemoryStrategyStore, JsonFileStrategyStore } from './strategy-store';
+import {
+  AccountSummary,
+  AnalyticsResult,
+  CancelStrategyResult,
+  CheckStatusResult,
+  ConfirmActionResult,
+  ConfirmableTool,
+  CreateStrategyRequest,
+  CreateStrategyResult,
+  HealthStatus,
+  ListAccountsResult,
+  ListStrategiesResult,
+  OperationFailure,
+  PendingAction,
+  PreparedRegistration,
+  PendingActionSummary,
+  PendingConfirmationResult,
+  PolicyViolationFailure,
+  ReconcileResult,
+  ReconcileSuccess,
+  RegistrationSummary,
+  RejectActionResult,
+  RenewStrategyResult,
+  StatusSummary,
+  StrategyRequest,
+  StrategyStatus,
+  UseAccountResult
+} from './api-types';
+import {
+  AUTOMATION_REGISTRY,
+  AutomationTaskInfo,
+  DecodedEntryFunction,
+  extractTaskIndex,
+  fetchActiveTasks,
+  fetchTaskDetails,
+  normalizeAddress
+} from './automation-registry';
+import { AutomationEventIndexer, IndexedExecution } from './event-indexer';
+import { ChainGateway, SUPRA_COIN_TYPE, SupraClientGateway } from './chain-gateway';
+import { CoinInfo, CoinMetadataRegistry, fromBaseUnits, isValidCoinType, normalizeCoinType } from './coin-metadata';
+import { LLMProvider, LLMToolCall, LLMToolDefinition, createLLMProviderFromEnv } from './llm-provider';
+import { ConversationMemory, ConversationMemoryOptions, ConversationSnapshot } from './conversation-memory';
+import { AccountRegistry, DEFAULT_ACCOUNT_NAME, NamedAccount, loadAccountRegistryFromEnv } from './account-registry';
+import { TransactionSigner } from './signer';
+import { DEFAULT_KEYSTORE_PATH, JsonFileKeystore, UnlockedKey } from './keystore';
+import { PolicyEngine, SpendingPolicy, loadSpendingPolicyFromEnv } from './policy-engine';
+import { RecordedRuns, StrategyTypeDefinition, StrategyTypeRegistry, createDefaultStrategyTypes } from './strategy-types';
+import { DEFAULT_THRESHOLD_SUPRA, DEFAULT_TOPUP_AMOUNT_SUPRA } from './auto-topup-strategy';
 
 dotenv.config();
-interface SuperAgentConfig {
-  supraCient: SupraClient;
-  openaiClient: OpenAI;
-  userAccount: SupraAccount;
+export interface SuperAgentConfig {
+  chain: ChainGateway;
+  llm?: LLMProvider;
+  signer?: TransactionSigner;
+  accounts?: AccountRegistry;
+  strategyTypes?: StrategyTypeRegistry;
   contractAddress: string;
   modulePrefix: string;
   retryAttempts?: number;
   timeoutMs?: number;
   enableAnalytics?: boolean;
+  strategyStore?: StrategyStore;
+  mode?: AgentMode;
+  automationMaxGas?: bigint;
+  automationGasPriceCap?: bigint;
+  maxToolIterations?: number;
+  requireConfirmation?: boolean;
+  conversationMemory?: ConversationMemoryOptions;
+  spendingPolicy?: SpendingPolicy;
+  defaultLifetimeHours?: number;
+  renewalWindowHours?: number;
+  expiryWarningHours?: number;
+  autoRenew?: boolean;
+  /** Where progress messages go; defaults to the global console. */
+  logger?: Console;
 }
 
-interface AutomationStrategy {
-  id: string;
-  type: 'auto_topup';
-  name: string;
-  description: string;
-  parameters: {
-    target: string;
-  };
-  taskId?: number;
-  isActive: boolean;
-  createdAt: Date;
-  lastChecked?: Date;
-  executionCount: number;
-  successRate: number;
-  totalTransferred: bigint;
-  lastExecution?: {
-    timestamp: Date;
-    gasUsed: bigint;
-    success: boolean;
-  };
+
+const MAX_EXECUTION_HISTORY = 5000;
+const BALANCE_BUFFER = BigInt(100_000_000);
+// Creation tools of every registered strategy type are confirmed as well.
+const CONFIRMABLE_TOOLS: ConfirmableTool[] = ['cancel_automation_strategy', 'renew_strategy'];
+const DEFAULT_TASK_LIFETIME_HOURS = 24;
+// Renewing more than one epoch (2h) ahead lets the new task activate before the old one expires.
+const DEFAULT_RENEWAL_WINDOW_HOURS = 3;
+const DEFAULT_EXPIRY_WARNING_HOURS = 6;
+const DEFAULT_EPOCH_INTERVAL_SECS = 7200;
+const COST_INPUTS_TTL_MS = 10 * 60 * 1000;
+// The state message is sent on every turn; anything beyond this is left to list_active_strategies.
+const MAX_STATE_STRATEGIES = 20;
+
+function toToolContent(result: any): string {
+  return JSON.stringify(result, (_key, value) => typeof value === 'bigint' ? value.toString() : value);
+}
+
+/** A creation request with the shared defaults applied and the type's parameters resolved. */
+interface ResolvedStrategyRequest {
+  type: string;
+  strategyName: string;
+  fundingAccount: string;
+  lifetimeHours: number;
+  coinType: string;
+  parameters: StrategyParameters;
 }
 
-const FUNCTION_DEFINITIONS = [
+// Added to every strategy type's creation tool.
+const STRATEGY_COMMON_PROPERTIES = {
+  fundingAccount: {
+    type: "string",
+    description: "Name of the configured account that pays for the transfers and automation fees (defaults to the active account)"
+  },
+  coinType: {
+    type: "string",
+    description: "Coin the strategy moves, as a full type such as 0x1::supra_coin::SupraCoin (default SUPRA); amounts are in whole units of this coin"
+  },
+  lifetimeHours: {
+    type: "number",
+    description: `Hours until the automation task expires (default ${DEFAULT_TASK_LIFETIME_HOURS})`
+  }
+};
+
+// Creation tools come from the strategy type registry and are listed before these.
+const MANAGEMENT_TOOL_DEFINITIONS: LLMToolDefinition[] = [
   {
-    name: "create_auto_topup_strategy",
-    description: "Create an automated top-up strategy with smart validation and cost estimation",
+    name: "cancel_automation_strategy",
+    description: "Cancel an existing automation strategy by cancelling its automation task on-chain",
     parameters: {
-      type: "object",
+      type: "object", 
       properties: {
-        strategyName: { 
-          type: "string", 
-          description: "Human readable name for the strategy (e.g., 'Trading Wallet Auto-Fund')" 
-        },
-        targetAddress: { 
-          type: "string", 
-          description: "32-byte hex address to monitor and top-up (must start with 0x)" 
-        }
+        strategyId: { type: "string", description: "ID of the strategy to cancel" }
       },
-      required: ["strategyName", "targetAddress"]
+      required: ["strategyId"]
     }
   },
   {
-    name: "cancel_automation_strategy",
-    description: "Cancel an existing automation strategy with confirmation",
+    name: "renew_strategy",
+    description: "Re-register the automation task of an active strategy with a new expiry before the current task lapses; the strategy keeps its id and parameters",
     parameters: {
-      type: "object", 
+      type: "object",
       properties: {
-        strategyId: { type: "string", description: "ID of the strategy to cancel" }
+        strategyId: { type: "string", description: "ID of the strategy to renew" },
+        lifetimeHours: {
+          type: "number",
+          description: `Hours until the renewed task expires (default ${DEFAULT_TASK_LIFETIME_HOURS})`
+        }
       },
       required: ["strategyId"]
     }
@@ -82,9 +170,19 @@ const FUNCTION_DEFINITIONS = [
       }
     }
   },
+  {
+    name: "list_funding_accounts",
+    description: "List the configured funding accounts with their addresses, SUPRA balances and number of active strategies",
+    parameters: { type: "object", properties: {} }
+  },
+  {
+    name: "reconcile_strategies",
+    description: "Sync local strategies with the automation tasks registered on-chain: fixes task ids, imports unknown tasks and flags expired or cancelled ones",
+    parameters: { type: "object", properties: {} }
+  },
   {
     name: "show_analytics",
-    description: "Show comprehensive analytics dashboard with insights",
+    description: "Show analytics for a timeframe with insights and projected monthly spend (automation fees and top-up transfers)",
     parameters: {
       type: "object",
       properties: {
@@ -100,8 +198,20 @@ const FUNCTION_DEFINITIONS = [
 
 export class SupraSuperAgent extends EventEmitter {
   private config: SuperAgentConfig;
+  private logger: Console;
+  private accounts: AccountRegistry;
+  private strategyTypes: StrategyTypeRegistry;
+  private coins: CoinMetadataRegistry;
+  private tools: LLMToolDefinition[];
+  private policy: PolicyEngine;
   private strategies: Map<string, AutomationStrategy> = new Map();
-  private conversationHistory: OpenAI.Chat.ChatCompletionMessageParam[] = [];
+  private strategyStore: StrategyStore;
+  private eventIndexer: AutomationEventIndexer;
+  private costInputsCache: { inputs: CostModelInputs; fetchedAt: number } | null = null;
+  private ready: Promise<void>;
+  private memory: ConversationMemory;
+  private pendingActions: Map<string, PendingAction> = new Map();
+  private actionSequence = 0;
   private performanceMetrics = {
     totalConversations: 0,
     totalStrategiesCreated: 0,
@@ -115,19 +225,88 @@ export class SupraSuperAgent extends EventEmitter {
       retryAttempts: 3,
       timeoutMs: 30000,
       enableAnalytics: true,
-      ...config
+      mode: 'live',
+      maxToolIterations: 5,
+      requireConfirmation: true,
+      ...config,
+      automationMaxGas: config.automationMaxGas ?? BigInt(5000),
+      automationGasPriceCap: config.automationGasPriceCap ?? BigInt(200),
+      defaultLifetimeHours: config.defaultLifetimeHours ?? DEFAULT_TASK_LIFETIME_HOURS,
+      renewalWindowHours: config.renewalWindowHours ?? DEFAULT_RENEWAL_WINDOW_HOURS,
+      expiryWarningHours: config.expiryWarningHours ?? DEFAULT_EXPIRY_WARNING_HOURS,
+      autoRenew: config.autoRenew ?? true
     };
+    if (!config.accounts && !config.signer) {
+      throw new Error('SuperAgentConfig needs either signer or accounts');
+    }
+    this.logger = config.logger ?? console;
+    this.validateLifetime(this.config.defaultLifetimeHours!);
+    this.accounts = config.accounts ?? AccountRegistry.single(config.signer!);
+    this.strategyTypes = config.strategyTypes ?? createDefaultStrategyTypes();
+    this.tools = [...this.strategyTypes.toolDefinitions(STRATEGY_COMMON_PROPERTIES), ...MANAGEMENT_TOOL_DEFINITIONS];
+    this.policy = new PolicyEngine(config.spendingPolicy);
+    this.strategyStore = this.config.strategyStore ?? new InMemoryStrategyStore();
+    this.eventIndexer = new AutomationEventIndexer(this.config.chain, this.config.contractAddress, this.config.modulePrefix);
+    this.coins = new CoinMetadataRegistry(this.config.chain);
+    this.ready = this.loadStrategies();
+    this.memory = new ConversationMemory({
+      summarize: transcript => this.summarizeTranscript(transcript),
+      logger: this.logger,
+      ...this.config.conversationMemory
+    });
     this.initializeSystemPrompt();
     this.startPerformanceMonitoring();
   }
 
+  public getMode(): AgentMode {
+    return this.config.mode!;
+  }
+
+  public async waitUntilReady(): Promise<void> {
+    await this.ready;
+  }
+
+  private async loadStrategies(): Promise<void> {
+    const stored = await this.strategyStore.load();
+    for (const strategy of stored) {
+      strategy.parameters = { ...this.strategyTypes.get(strategy.type)?.defaults, ...strategy.parameters };
+      strategy.fundingAccount ??= DEFAULT_ACCOUNT_NAME;
+      strategy.failureCount ??= 0;
+      strategy.executionHistory ??= [];
+      this.strategies.set(strategy.id, strategy);
+    }
+    if (stored.length > 0) {
+      this.logger.log(`📂 Loaded ${stored.length} saved strategies (${stored.filter(s => s.isActive).length} active)`);
+    }
+    // Status and analytics format amounts synchronously, so metadata is loaded up front; a miss is retried on use.
+    for (const coinType of new Set(stored.map(s => s.coinType ?? SUPRA_COIN_TYPE))) {
+      try {
+        await this.coins.resolve(coinType);
+      } catch (error: any) {
+        this.logger.warn(`⚠️ ${error.message}`);
+      }
+    }
+  }
+
+  private async persistStrategy(strategy: AutomationStrategy): Promise<void> {
+    // Dry runs still reconcile and index events, but only in memory: nothing they change is saved.
+    if (this.config.mode === 'dry-run') return;
+    try {
+      await this.strategyStore.save(strategy);
+    } catch (error: any) {
+      this.logger.error(`⚠️ Failed to persist strategy ${strategy.id}:`, error.message);
+      this.emit('persistenceError', { strategyId: strategy.id, error });
+    }
+  }
+
   private initializeSystemPrompt() {
-    this.conversationHistory.push({
-      role: "system",
-      content: `You are SUPRA - an intelligent DeFi automation assistant with advanced capabilities.
+    this.memory.setSystemPrompt(`You are SUPRA - an intelligent DeFi automation assistant with advanced capabilities.
 
 🎯 **Your Expertise:**
-- Create and manage auto top-up strategies (600 SUPRA threshold, 50 SUPRA top-up)
+- Create and manage auto top-up strategies with a per-wallet threshold and top-up amount
+- Set up recurring payments (scheduled transfers) to a recipient hourly, daily, weekly or on a custom interval
+- Sweep excess SUPRA above a ceiling from a hot wallet back to a treasury
+- Run any of these with another coin (e.g. a stablecoin buffer) by passing its coinType
 - Provide real-time performance insights and analytics
 - Offer optimization suggestions and cost projections
 - Explain complex DeFi concepts in simple terms
@@ -140,10 +319,19 @@ export class SupraSuperAgent extends EventEmitter {
 - Always explain the 'why' behind recommendations
 
 🔧 **Auto Top-up Details:**
-- Fixed parameters: 600 SUPRA threshold, 50 SUPRA top-up amount
-- Users only provide: strategy name and target address
+- Defaults: ${DEFAULT_THRESHOLD_SUPRA} SUPRA threshold, ${DEFAULT_TOPUP_AMOUNT_SUPRA} SUPRA top-up amount
+- Users provide: strategy name and target address, and optionally thresholdSupra and topupAmountSupra
+- Suggest a higher threshold or top-up for wallets that burn SUPRA quickly
+- Available strategy types: ${this.strategyTypes.list().map(d => `${d.label} (${d.tool.name})`).join(', ')}
+- Excess sweeps: the swept wallet is the funding account that signs the task, so ask which account to sweep when several are configured; status reports how far above the ceiling it is
+- Scheduled transfers: the contract enforces the interval on-chain and stops at endDate or maxPayments; check_strategy_status reports payments made and the next due time
+- Several funding accounts may be configured: pass fundingAccount when the user names one, otherwise the active account pays
+- coinType is the full coin type (address::module::Struct); amount arguments are whole units of that coin, while automation fees are always paid in SUPRA
+- Automation tasks expire after lifetimeHours (default ${this.config.defaultLifetimeHours}h). ${this.config.autoRenew ? 'The agent renews them automatically shortly before expiry, but only while it is running' : 'Automatic renewal is off: remind users to renew strategies that are close to expiry'}. Use renew_strategy when the user asks to extend a strategy
+- A POLICY_VIOLATION result means a spending limit blocked the action before anything was signed: explain each violated rule with its limit and the actual value, and suggest a compliant change - never try to work around the policy
 - You handle all technical complexity automatically
-
+${this.config.requireConfirmation && this.config.mode !== 'dry-run' ? `- Creating, renewing or cancelling a strategy returns PENDING_CONFIRMATION: nothing has been signed yet. Summarize the pending action and tell the user to type \`confirm\` or \`reject\` - never say it was deployed, renewed or cancelled
+` : ''}
 💡 **Communication Style:**
 - Use emojis strategically for clarity (not overuse)
 - Provide actionable insights and next steps
@@ -151,84 +339,132 @@ export class SupraSuperAgent extends EventEmitter {
 - Always prioritize user security and funds safety
 - Be proactive with optimization suggestions
 
-Remember: You're not just executing commands - you're an intelligent partner helping users optimize their DeFi operations safely and efficiently.`
-    });
+Remember: You're not just executing commands - you're an intelligent partner helping users optimize their DeFi operations safely and efficiently.${this.config.mode === 'dry-run' ? `
+
+🧪 **DRY-RUN MODE:** Nothing is signed or sent on-chain. Tool results describe the transactions that would be sent - always tell the user that no strategy was actually deployed or cancelled.` : ''}
+
+The latest strategy state is provided as a separate system message on every turn - prefer it over older tool results.`);
   }
 
   async chat(userMessage: string): Promise<string> {
     try {
+      await this.ready;
+      if (!this.config.llm) {
+        throw new Error('Chat is disabled: no LLM provider configured');
+      }
       this.performanceMetrics.totalConversations++;
       this.emit('conversationStarted', { message: userMessage });
 
-      this.conversationHistory.push({
-        role: "user", 
+      this.memory.append({
+        role: "user",
         content: userMessage
       });
+      await this.memory.compact(this.describeStrategyState());
+
+      let finalMessage: string | undefined;
+      for (let iteration = 0; iteration < this.config.maxToolIterations!; iteration++) {
+        const completion = await this.config.llm.complete({
+          messages: this.memory.buildContext(this.describeStrategyState()),
+          tools: this.tools,
+          toolChoice: "auto"
+        });
 
-      const response = await this.config.openaiClient.chat.completions.create({
-        model: "gpt-4",
-        messages: this.conversationHistory,
-        functions: FUNCTION_DEFINITIONS,
-        function_call: "auto",
-        temperature: 0.7,
-        max_tokens: 1000,
-        presence_penalty: 0.1,
-        frequency_penalty: 0.1
-      });
-
-      const message = response.choices[0].message;
-
-      if (message.function_call) {
-        const functionResult = await this.handleFunctionCall(
-          message.function_call.name!,
-          JSON.parse(message.function_call.arguments!)
-        );
+        if (completion.toolCalls.length === 0) {
+          finalMessage = completion.content ?? '';
+          break;
+        }
 
-        this.conversationHistory.push({
+        this.memory.append({
           role: "assistant",
-          content: null,
-          function_call: message.function_call
+          content: completion.content,
+          toolCalls: completion.toolCalls
         });
 
-        this.conversationHistory.push({
-          role: "function",
-          name: message.function_call.name!,
-          content: JSON.stringify(functionResult)
-        });
+        // Tool calls run one at a time: each transaction reads the account sequence number before signing.
+        for (const toolCall of completion.toolCalls) {
+          const result = await this.executeToolCall(toolCall);
+          this.memory.append({
+            role: "tool",
+            toolCallId: toolCall.id,
+            content: toToolContent(result)
+          });
+        }
+      }
 
-        const finalResponse = await this.config.openaiClient.chat.completions.create({
-          model: "gpt-4", 
-          messages: this.conversationHistory,
-          temperature: 0.7,
-          max_tokens: 800
+      if (finalMessage === undefined) {
+        this.logger.warn(`⚠️ Stopped after ${this.config.maxToolIterations} tool-call rounds`);
+        const finalCompletion = await this.config.llm.complete({
+          messages: this.memory.buildContext(this.describeStrategyState()),
+          tools: this.tools,
+          toolChoice: "none"
         });
+        finalMessage = finalCompletion.content ?? '';
+      }
 
-        const finalMessage = this.enhanceResponse(finalResponse.choices[0].message.content!);
-        this.conversationHistory.push({
-          role: "assistant",
-          content: finalMessage
-        });
+      const aiResponse = this.enhanceResponse(finalMessage);
+      this.memory.append({
+        role: "assistant",
+        content: aiResponse
+      });
 
-        this.emit('conversationCompleted', { response: finalMessage });
-        return finalMessage;
-      } else {
-        const aiResponse = this.enhanceResponse(message.content!);
-        this.conversationHistory.push({
-          role: "assistant",
-          content: aiResponse  
-        });
-        
-        this.emit('conversationCompleted', { response: aiResponse });
-        return aiResponse;
-      }
+      this.emit('conversationCompleted', { response: aiResponse });
+      return aiResponse;
 
     } catch (error: any) {
-      console.error('💥 Chat error:', error);
+      this.logger.error('💥 Chat error:', error);
       this.emit('conversationError', { error });
       return this.generateFriendlyErrorResponse(error);
     }
   }
 
+  public resetConversation(): void {
+    this.memory.reset();
+    this.emit('conversationReset');
+  }
+
+  public exportConversation(): ConversationSnapshot {
+    return { ...this.memory.snapshot(), actionSequence: this.actionSequence };
+  }
+
+  public importConversation(snapshot: ConversationSnapshot): void {
+    this.memory.restore(snapshot);
+    // Never lower the counter: actions queued before the switch are still pending under their ids.
+    this.actionSequence = Math.max(this.actionSequence, snapshot.actionSequence ?? 0);
+  }
+
+  /** Active strategies only, newest first and capped; inactive ones are just counted. */
+  private describeStrategyState(): string {
+    const active = this.getActiveStrategyList().sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    const inactiveCount = this.strategies.size - active.length;
+    const lines = active.slice(0, MAX_STATE_STRATEGIES).map(s =>
+      `- ${s.id} "${s.name}" [active${s.chainStatus ? `, chain: ${s.chainStatus}` : ''}${s.taskId !== undefined ? `, task #${s.taskId}` : ''}${s.expiresAt ? `, expires ${s.expiresAt.toISOString()}` : ''}] ` +
+      `${this.strategyTypes.get(s.type)?.label ?? s.type}, funded by ${s.fundingAccount}, target ${s.parameters.target}, ${this.formatParameters(s)}, ` +
+      `${s.executionCount} executions, ${(s.successRate * 100).toFixed(0)}% success`
+    );
+    const pending = this.getPendingActions().map(a => `- ${a.id}: ${a.summary.action} (awaiting confirmation)`);
+    const policyRules = this.policy.describe();
+    return [
+      `Current strategy state (${new Date().toISOString()}, mode: ${this.config.mode}):`,
+      `Funding accounts: ${this.accounts.names().map(name => name === this.accounts.active.name ? `${name} (active)` : name).join(', ')}`,
+      ...(lines.length > 0 ? lines : ['- no active strategies']),
+      ...(active.length > lines.length ? [`- ...and ${active.length - lines.length} more active strategies (call list_active_strategies)`] : []),
+      ...(inactiveCount > 0 ? [`${inactiveCount} inactive strategies are not listed; use check_strategy_status for one of them`] : []),
+      ...(pending.length > 0 ? ['Pending actions:', ...pending] : []),
+      ...(policyRules.length > 0 ? [`Spending policy: ${policyRules.join('; ')}`] : [])
+    ].join('\n');
+  }
+
+  private async summarizeTranscript(transcript: string): Promise<string> {
+    if (!this.config.llm) return transcript;
+    const completion = await this.config.llm.complete({
+      messages: [
+        { role: "system", content: "Summarize this conversation between a user and a DeFi automation assistant in at most 8 short bullet points. Keep strategy ids, wallet addresses, amounts and decisions; drop pleasantries." },
+        { role: "user", content: transcript }
+      ]
+    });
+    return completion.content ?? transcript;
+  }
+
   private enhanceResponse(response: string): string {
     let enhanced = response;
     
@@ -248,16 +484,37 @@ Remember: You're not just executing commands - you're an intelligent partner hel
     return enhanced;
   }
 
+  private async executeToolCall(toolCall: LLMToolCall): Promise<any> {
+    const functionName = toolCall.name;
+    try {
+      const args = toolCall.arguments ? JSON.parse(toolCall.arguments) : {};
+      return await this.handleFunctionCall(functionName, args);
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message,
+        message: `Tool ${functionName} failed: ${error.message}`
+      };
+    }
+  }
+
   private async handleFunctionCall(functionName: string, args: any): Promise<any> {
     this.emit('functionCalled', { functionName, args });
 
     try {
+      if (this.requiresConfirmation(functionName)) {
+        return await this.queuePendingAction(functionName as ConfirmableTool, args);
+      }
+      const strategyType = this.strategyTypes.byTool(functionName);
+      if (strategyType) {
+        return await this.createStrategy(strategyType.type, args);
+      }
       switch (functionName) {
-        case 'create_auto_topup_strategy':
-          return await this.createAutoTopupStrategy(args);
-          
         case 'cancel_automation_strategy':
           return await this.cancelStrategy(args.strategyId);
+
+        case 'renew_strategy':
+          return await this.renewStrategy(args.strategyId, args.lifetimeHours);
           
         case 'list_active_strategies':
           return this.listActiveStrategies();
@@ -267,6 +524,12 @@ Remember: You're not just executing commands - you're an intelligent partner hel
 
         case 'show_analytics':
           return await this.generateAnalytics(args.timeframe);
+
+        case 'reconcile_strategies':
+          return await this.reconcileStrategies();
+
+        case 'list_funding_accounts':
+          return await this.listAccounts();
           
         default:
           throw new Error(`Unknown function: ${functionName}`);
@@ -277,89 +540,438 @@ Remember: You're not just executing commands - you're an intelligent partner hel
     }
   }
 
-  private async createAutoTopupStrategy(params: {
-    strategyName: string;
-    targetAddress: string;
-  }): Promise<any> {
+  private requiresConfirmation(functionName: string): boolean {
+    return this.config.requireConfirmation! &&
+      this.config.mode !== 'dry-run' &&
+      (CONFIRMABLE_TOOLS.includes(functionName as ConfirmableTool) || this.strategyTypes.byTool(functionName) !== undefined);
+  }
+
+  private async queuePendingAction(tool: ConfirmableTool, args: any): Promise<PendingConfirmationResult | PolicyViolationFailure | OperationFailure> {
+    let summary: PendingActionSummary;
+    let registration: PreparedRegistration | undefined;
     try {
-      const strategyId = `topup_${Date.now()}`;
-        console.log('Creating optimized automation strategy:', params);
+      const strategyType = this.strategyTypes.byTool(tool);
+      // Pin the defaults now so that switching the active account before confirming cannot change the payer.
+      if (strategyType) {
+        args = {
+          ...args,
+          fundingAccount: args.fundingAccount ?? this.accounts.active.name,
+          lifetimeHours: args.lifetimeHours ?? this.config.defaultLifetimeHours
+        };
+      }
+      ({ summary, registration } = await this.describeAction(tool, args));
+      if (strategyType) {
+        const request = this.resolveStrategyRequest(strategyType.type, args);
+        const policyFailure = await this.checkSpendingPolicy(request, toMicroSupra(summary.automationFeeCapSupra!));
+        if (policyFailure) return policyFailure;
+      }
+      if (tool === 'renew_strategy') {
+        const strategy = this.strategies.get(args.strategyId)!;
+        const params = this.renewalParams(strategy, args.lifetimeHours);
+        const policyFailure = await this.checkSpendingPolicy(params, toMicroSupra(summary.automationFeeCapSupra!), strategy);
+        if (policyFailure) return policyFailure;
+      }
+    } catch (error: any) {
+      return { success: false, error: error.message, message: `❌ Cannot prepare ${tool}: ${error.message}` };
+    }
+    const action: PendingAction = {
+      id: `action_${++this.actionSequence}`,
+      tool,
+      args,
+      summary,
+      registration,
+      createdAt: new Date()
+    };
+    this.pendingActions.set(action.id, action);
+    this.emit('actionPending', { action });
+    return {
+      success: true,
+      status: 'PENDING_CONFIRMATION',
+      actionId: action.id,
+      summary,
+      message: `⏸️ ${summary.action} is waiting for user confirmation (${action.id}). Nothing has been signed yet.`
+    };
+  }
 
-      if (!this.isValidAddress(params.targetAddress)) {
-        throw new Error(`Invalid address format: ${params.targetAddress}. Must be 0x followed by 64 hex characters.`);
+  private async describeAction(tool: ConfirmableTool, args: any): Promise<{ summary: PendingActionSummary; registration?: PreparedRegistration }> {
+    if (tool === 'cancel_automation_strategy') {
+      const strategy = this.strategies.get(args.strategyId);
+      if (!strategy) {
+        throw new Error(`Strategy not found: ${args.strategyId}`);
       }
+      const summary: PendingActionSummary = {
+        action: `Cancel strategy "${strategy.name}"`,
+        strategyName: strategy.name,
+        strategyId: strategy.id,
+        taskId: strategy.taskId,
+        fundingAccount: strategy.fundingAccount!,
+        strategyType: strategy.type,
+        target: strategy.parameters.target,
+        parameters: strategy.parameters,
+        details: this.formatParameters(strategy)
+      };
+      return { summary };
+    }
 
-      await this.performPreDeploymentChecks(params.targetAddress);
+    if (tool === 'renew_strategy') {
+      const strategy = this.strategies.get(args.strategyId);
+      if (!strategy) {
+        throw new Error(`Strategy not found: ${args.strategyId}`);
+      }
+      if (!strategy.isActive) {
+        throw new Error(`Strategy "${strategy.name}" is not active`);
+      }
+      const params = this.renewalParams(strategy, args.lifetimeHours);
+      this.validateLifetime(params.lifetimeHours);
+      const registration = await this.buildAutomationRegistration(params);
+      const summary: PendingActionSummary = {
+        action: `Renew strategy "${strategy.name}"`,
+        strategyName: strategy.name,
+        strategyId: strategy.id,
+        taskId: strategy.taskId,
+        fundingAccount: registration.summary.fundingAccount,
+        strategyType: strategy.type,
+        target: strategy.parameters.target,
+        parameters: strategy.parameters,
+        details: this.formatParameters(strategy),
+        automationFeeCapSupra: registration.summary.automationFeeCapSupra,
+        expiresAt: registration.summary.expiresAt
+      };
+      return { summary, registration };
+    }
 
-      try {
-        const realResult = await this.deployRealAutomation(params);
-        
-        const strategy: AutomationStrategy = {
-          id: strategyId,
-          type: 'auto_topup',
-          name: params.strategyName,
-          description: `Smart auto top-up for ${params.targetAddress} - maintains 600+ SUPRA balance`,
-          parameters: {
-            target: params.targetAddress
-          },
-          taskId: realResult.taskId,
-          isActive: true,
-          createdAt: new Date(),
-          executionCount: 0,
-          successRate: 1.0,
-          totalTransferred: BigInt(0)
-        };
+    const request = this.resolveStrategyRequest(this.strategyTypes.byTool(tool)!.type, args);
+    this.validateStrategyRequest(request);
+    const registration = await this.buildAutomationRegistration(request);
+    const coin = await this.coins.resolve(request.coinType);
+    const projection = projectMonthlyCost([this.candidateStrategy(request)], await this.loadCostInputs());
+    const summary: PendingActionSummary = {
+      action: `Create strategy "${request.strategyName}"`,
+      strategyName: request.strategyName,
+      fundingAccount: registration.summary.fundingAccount,
+      strategyType: request.type,
+      target: request.parameters.target,
+      parameters: request.parameters,
+      details: this.strategyTypes.require(request.type).formatParameters(request.parameters, coin),
+      automationFeeCapSupra: registration.summary.automationFeeCapSupra,
+      expiresAt: registration.summary.expiresAt,
+      estimatedMonthlyCostSupra: projection.totals.monthlyTotalSupra
+    };
+    return { summary, registration };
+  }
+
+  private candidateStrategy(request: ResolvedStrategyRequest): CostedStrategy {
+    return {
+      id: 'pending',
+      name: request.strategyName,
+      createdAt: new Date(),
+      executionHistory: [],
+      coinType: request.coinType,
+      committedMonthlyTransfer: this.strategyTypes.require(request.type).monthlyTransfer?.(request.parameters),
+      coin: this.coins.peek(request.coinType),
+      returnsFunds: this.strategyTypes.require(request.type).returnsFunds
+    };
+  }
+
+  private costedStrategy(strategy: AutomationStrategy): CostedStrategy {
+    return {
+      ...strategy,
+      committedMonthlyTransfer: this.strategyTypes.get(strategy.type)?.monthlyTransfer?.(strategy.parameters),
+      coin: this.coins.peek(strategy.coinType),
+      returnsFunds: this.strategyTypes.get(strategy.type)?.returnsFunds
+    };
+  }
+
+  /** `replacing` is left out of the counts when a renewal re-registers an existing strategy. */
+  private async checkSpendingPolicy(
+    request: ResolvedStrategyRequest,
+    feeCap: bigint,
+    replacing?: AutomationStrategy
+  ): Promise<PolicyViolationFailure | null> {
+    const funding = this.accounts.require(request.fundingAccount);
+    const active = this.getActiveStrategyList().filter(s => s !== replacing);
+    const onAccount = active.filter(s => s.fundingAccount === funding.name).length;
+    const balance = await this.config.chain.getCoinBalance(funding.address);
+    const coin = await this.coins.resolve(request.coinType);
+    const projection = projectMonthlyCost([...active.map(s => this.costedStrategy(s)), this.candidateStrategy(request)], await this.loadCostInputs());
+    // Fees are paid in SUPRA, so only a floor in SUPRA has to cover them. Every task on the account
+    // is assumed to carry a fee cap like this one.
+    const movesSupra = normalizeCoinType(request.coinType) === SUPRA_COIN_TYPE;
+    const violations = this.policy.evaluate({
+      fundingAccount: funding.name,
+      target: request.parameters.target,
+      feeCapSupra: toSupra(feeCap),
+      activeStrategiesOnAccount: onAccount,
+      projectedMonthlySpendSupra: projection.totals.monthlyTotalSupra,
+      balanceAfterCommitmentSupra: toSupra(balance - feeCap - BALANCE_BUFFER),
+      fundingFloorSupra: movesSupra ? this.strategyTypes.require(request.type).fundingFloor?.(request.parameters) : undefined,
+      committedFeeCapsSupra: toSupra(feeCap * BigInt(onAccount + 1) + BALANCE_BUFFER),
+      coinType: coin.coinType,
+      coinSymbol: coin.symbol,
+      projectedMonthlyTransferInCoin: projection.totals.monthlyTransferByCoin[normalizeCoinType(coin.coinType)]
+    });
+    if (violations.length === 0) return null;
+    this.emit('policyViolation', { request, violations });
+    return {
+      success: false,
+      error: 'POLICY_VIOLATION',
+      violations,
+      message: `🛑 "${request.strategyName}" was blocked by the spending policy: ${violations.map(v => v.message).join('; ')}. Nothing was signed.`,
+      suggestions: violations.map(v => this.policySuggestion(v.rule))
+    };
+  }
+
+  private policySuggestion(rule: PolicyViolationFailure['violations'][number]['rule']): string {
+    switch (rule) {
+      case 'MAX_STRATEGIES_PER_ACCOUNT': return 'Cancel an unused strategy or fund this one from another account';
+      case 'MAX_MONTHLY_SPEND': return 'Lower the top-up amount, cancel strategies you no longer need or ask an operator to set SUPRA_POLICY_MAX_MONTHLY_TRANSFER_BY_COIN';
+      case 'MAX_FEE_CAP': return 'Retry when the automation fee estimate is available, or ask an operator to raise the fee cap limit';
+      case 'TARGET_NOT_ALLOWED': return 'Ask an operator to add the target to SUPRA_POLICY_ALLOWED_TARGETS';
+      case 'TARGET_DENIED': return 'Choose a different target address';
+      case 'MIN_RESERVE': return 'Fund the account, use another funding account or raise the amount the strategy leaves in it';
+    }
+  }
+
+  public getSpendingPolicy(): SpendingPolicy {
+    return this.policy.getPolicy();
+  }
+
+  public getPendingActions(): PendingAction[] {
+    return Array.from(this.pendingActions.values());
+  }
+
+  public async confirmAction(actionId?: string): Promise<ConfirmActionResult> {
+    const action = this.resolvePendingAction(actionId);
+    if (!action) {
+      return this.missingActionFailure(actionId);
+    }
+    let staleReason: string | null | undefined;
+    try {
+      staleReason = action.registration && await this.staleRegistrationReason(action.registration);
+    } catch (error: any) {
+      // The action stays pending so the user can confirm it again once the RPC answers.
+      return {
+        success: false,
+        error: error.message,
+        message: `❌ Could not check that ${action.summary.action} is still current: ${error.message}. It is still waiting for confirmation (${action.id}).`
+      };
+    }
+    this.pendingActions.delete(action.id);
+    let result: ConfirmActionResult;
+    if (staleReason) {
+      result = {
+        success: false,
+        error: 'ACTION_STALE',
+        message: `❌ ${action.summary.action} was not sent because ${staleReason}. Ask again to prepare a fresh transaction.`
+      };
+    } else {
+      switch (action.tool) {
+        case 'renew_strategy':
+          result = await this.renewStrategyWith(action.args.strategyId, action.args.lifetimeHours, action.registration);
+          break;
+        case 'cancel_automation_strategy':
+          result = await this.cancelStrategy(action.args.strategyId);
+          break;
+        default:
+          result = await this.createStrategyWith(this.strategyTypes.byTool(action.tool)!.type, action.args, action.registration);
+      }
+    }
+    this.memory.append({
+      role: "system",
+      content: `The user confirmed ${action.id} (${action.summary.action}). Result: ${toToolContent(result)}`
+    });
+    this.emit('actionConfirmed', { action, result });
+    return result;
+  }
+
+  /** Why a registration built for confirmation can no longer be sent as shown, if it cannot. */
+  private async staleRegistrationReason(registration: PreparedRegistration): Promise<string | null> {
+    if (registration.summary.expiresAt.getTime() <= Date.now()) {
+      return 'its task expiry has already passed';
+    }
+    const { sequenceNumber } = await this.config.chain.getAccountInfo(registration.summary.sender);
+    if (sequenceNumber.toString() !== registration.summary.sequenceNumber) {
+      return `account ${registration.summary.fundingAccount} has sent other transactions since it was prepared`;
+    }
+    return null;
+  }
 
-        this.strategies.set(strategyId, strategy);
-        this.performanceMetrics.totalStrategiesCreated++;
-        
-        this.emit('strategyCreated', { strategy });
+  public rejectAction(actionId?: string): RejectActionResult {
+    const action = this.resolvePendingAction(actionId);
+    if (!action) {
+      return this.missingActionFailure(actionId);
+    }
+    this.pendingActions.delete(action.id);
+    this.memory.append({
+      role: "system",
+      content: `The user rejected ${action.id} (${action.summary.action}). Nothing was sent on-chain.`
+    });
+    this.emit('actionRejected', { action });
+    return {
+      success: true,
+      actionId: action.id,
+      message: `🚫 Rejected: ${action.summary.action}. Nothing was sent on-chain.`
+    };
+  }
 
+  private resolvePendingAction(actionId?: string): PendingAction | undefined {
+    if (actionId) {
+      return this.pendingActions.get(actionId);
+    }
+    return this.getPendingActions()[0];
+  }
+
+  private missingActionFailure(actionId?: string): OperationFailure {
+    return actionId
+      ? { success: false, error: 'ACTION_NOT_FOUND', message: `No pending action with id ${actionId}` }
+      : { success: false, error: 'NO_PENDING_ACTION', message: 'There is no action waiting for confirmation' };
+  }
+
+  private resolveStrategyRequest(type: string, request: StrategyRequest): ResolvedStrategyRequest {
+    const { strategyName, fundingAccount, lifetimeHours, coinType, ...args } = request;
+    return {
+      type,
+      strategyName,
+      fundingAccount: fundingAccount ?? this.accounts.active.name,
+      lifetimeHours: lifetimeHours ?? this.config.defaultLifetimeHours!,
+      coinType: coinType ?? SUPRA_COIN_TYPE,
+      parameters: this.strategyTypes.require(type).fromToolArgs(args)
+    };
+  }
+
+  private validateStrategyRequest(request: ResolvedStrategyRequest): void {
+    if (typeof request.coinType !== 'string' || !isValidCoinType(request.coinType)) {
+      throw new Error(`Invalid coin type: ${request.coinType}. Use the full type, e.g. ${SUPRA_COIN_TYPE}.`);
+    }
+    this.strategyTypes.require(request.type).validate(request.parameters);
+    this.validateLifetime(request.lifetimeHours);
+    this.accounts.require(request.fundingAccount);
+  }
+
+  private formatParameters(strategy: AutomationStrategy): string {
+    const definition = this.strategyTypes.get(strategy.type);
+    const coin = this.coins.peek(strategy.coinType);
+    return definition && coin ? definition.formatParameters(strategy.parameters, coin) : JSON.stringify(strategy.parameters);
+  }
+
+  /** Metadata of the coin a strategy moves; loaded with the strategy, so only a failed lookup is missing. */
+  private coinOf(strategy: Pick<AutomationStrategy, 'coinType'>): CoinInfo {
+    const coin = this.coins.peek(strategy.coinType);
+    if (!coin) {
+      throw new Error(`Metadata for coin ${strategy.coinType} is not loaded`);
+    }
+    return coin;
+  }
+
+  public async createAutoTopupStrategy(request: CreateStrategyRequest): Promise<CreateStrategyResult> {
+    return this.createStrategy('auto_topup', request);
+  }
+
+  /** Validates, checks policy and deploys a strategy of any registered type. */
+  public async createStrategy<A extends object>(type: string, request: CreateStrategyRequest<A>): Promise<CreateStrategyResult> {
+    return this.createStrategyWith(type, request);
+  }
+
+  /** `prepared` is the registration a confirmed action showed; it is sent instead of building a new one. */
+  private async createStrategyWith(type: string, request: StrategyRequest, prepared?: PreparedRegistration): Promise<CreateStrategyResult> {
+    let params: ResolvedStrategyRequest | undefined;
+    try {
+      params = this.resolveStrategyRequest(type, request);
+      if (prepared) {
+        // Defaults filled in when the request is resolved, such as a schedule's id and start, must match what was shown and is sent.
+        params = { ...params, parameters: prepared.summary.parameters };
+      }
+      const definition = this.strategyTypes.require(type);
+      const strategyId = `${definition.idPrefix}_${Date.now()}`;
+      this.logger.log('Creating optimized automation strategy:', params);
+
+      this.validateStrategyRequest(params);
+      const coin = await this.coins.resolve(params.coinType);
+
+      await this.performPreDeploymentChecks(params.parameters.target, coin);
+
+      const registration = prepared ?? await this.buildAutomationRegistration(params);
+      const policyFailure = await this.checkSpendingPolicy(params, BigInt(registration.summary.automationFeeCap));
+      if (policyFailure) {
+        return policyFailure;
+      }
+
+      if (this.config.mode === 'dry-run') {
         return {
           success: true,
-          strategyId,
-          txHash: realResult.txHash,
-          taskId: realResult.taskId,
-          message: `✅ Strategy "${params.strategyName}" deployed successfully!`,
-          strategy,
-          estimatedMonthlyCost: await this.estimateMonthlyCost(),
-          mode: 'REAL_DEPLOYMENT'
+          mode: 'DRY_RUN',
+          message: `🧪 Dry run: strategy "${params.strategyName}" was not deployed. This is the registration that would be sent.`,
+          wouldSend: {
+            ...registration.summary,
+            serializedTransaction: HexString.fromUint8Array(registration.serializedTx).toString()
+          }
         };
+      }
 
+      let realResult: { txHash: string; taskId?: number; gasUsed: bigint; fee: bigint };
+      try {
+        realResult = await this.deployRealAutomation(this.accounts.require(params.fundingAccount), registration.serializedTx);
       } catch (deployError: any) {
-        console.log('⚠️ Real deployment failed, using simulation:', deployError.message);
-        
-        const strategy: AutomationStrategy = {
-          id: strategyId,
-          type: 'auto_topup',
-          name: params.strategyName,
-          description: `Simulated auto top-up for ${params.targetAddress}`,
-          parameters: {
-            target: params.targetAddress
-          },
-          taskId: Math.floor(Math.random() * 10000),
-          isActive: true,
-          createdAt: new Date(),
-          executionCount: 0,
-          successRate: 1.0,
-          totalTransferred: BigInt(0)
-        };
-
-        this.strategies.set(strategyId, strategy);
-
+        this.emit('strategyCreationFailed', { error: deployError, params });
         return {
-          success: true,
-          strategyId,
-          txHash: `0x${Math.random().toString(16).slice(2)}`,
-          taskId: strategy.taskId,
-          message: `🔄 Strategy created in simulation mode`,
-          strategy,
-          mode: 'SIMULATION',
-          note: `Real deployment failed: ${deployError.message}`,
-          troubleshooting: this.generateTroubleshootingTips(deployError)
+          success: false,
+          error: deployError.message,
+          message: `❌ Deployment of "${params.strategyName}" failed: ${deployError.message}`,
+          troubleshooting: this.generateTroubleshootingTips(deployError),
+          suggestions: this.generateErrorSuggestions(deployError)
         };
       }
 
+      const strategy: AutomationStrategy = {
+        id: strategyId,
+        type,
+        name: params.strategyName,
+        description: definition.describe(params.parameters, coin),
+        parameters: params.parameters,
+        coinType: coin.coinType,
+        fundingAccount: params.fundingAccount,
+        taskId: realResult.taskId,
+        registrationTxHash: realResult.txHash,
+        chainStatus: realResult.taskId !== undefined ? 'pending' : undefined,
+        expiresAt: registration.summary.expiresAt,
+        isActive: true,
+        createdAt: new Date(),
+        executionCount: 0,
+        failureCount: 0,
+        successRate: 1.0,
+        totalTransferred: BigInt(0),
+        lastExecution: {
+          timestamp: new Date(),
+          success: true
+        },
+        executionHistory: [{
+          timestamp: new Date(),
+          action: 'registration',
+          success: true,
+          amount: BigInt(0),
+          fee: realResult.fee,
+          txHash: realResult.txHash
+        }]
+      };
+
+      this.strategies.set(strategyId, strategy);
+      await this.persistStrategy(strategy);
+      this.performanceMetrics.totalStrategiesCreated++;
+
+      this.emit('strategyCreated', { strategy });
+
+      return {
+        success: true,
+        strategyId,
+        txHash: realResult.txHash,
+        taskId: realResult.taskId,
+        gasUsed: realResult.gasUsed.toString(),
+        message: `✅ Strategy "${params.strategyName}" deployed successfully!`,
+        strategy,
+        estimatedMonthlyCost: await this.estimateMonthlyCost([strategy]),
+        mode: 'LIVE'
+      };
+
     } catch (error: any) {
       this.emit('strategyCreationFailed', { error, params });
       
@@ -372,137 +984,147 @@ Remember: You're not just executing commands - you're an intelligent partner hel
     }
   }
 
-  private async deployRealAutomation(params: any): Promise<{ txHash: string; taskId: number }> {
-    const senderAddr = this.config.userAccount.address();
-    const accountInfo = await this.config.supraCient.getAccountInfo(senderAddr);
-    const sequenceNumber = BigInt(accountInfo.sequence_number);
+  private async buildAutomationRegistration(params: ResolvedStrategyRequest): Promise<{ serializedTx: Uint8Array; summary: RegistrationSummary }> {
+    const definition = this.strategyTypes.require(params.type);
+    const funding = this.accounts.require(params.fundingAccount);
+    const senderAddr = funding.address;
+    const { sequenceNumber } = await this.config.chain.getAccountInfo(senderAddr);
+    const coin = await this.coins.resolve(params.coinType);
+
+    const functionArgs = definition.encodeArgs(params.parameters, coin);
+
+    const expiryTime = Math.floor(Date.now() / 1000) + Math.round(params.lifetimeHours * 60 * 60);
+
+    this.logger.log('🔧 Creating automation registration...');
+    this.logger.log('📍 Contract:', this.config.contractAddress);
+    this.logger.log(`🎯 Function: ${this.config.modulePrefix}::${definition.entryFunction}`);
+    this.logger.log('📋 Target:', params.parameters.target);
+    this.logger.log(`💳 Funding account: ${funding.name} (${senderAddr})`);
+    this.logger.log(`🪙 Coin: ${coin.symbol} (${coin.coinType}, ${coin.decimals} decimals)`);
+    this.logger.log(`⚖️ ${definition.label}: ${definition.formatParameters(params.parameters, coin)}`);
+
+    let automationFeeCap = BigInt(50000000000);
+    this.logger.log('Estimating automation fee...');
+    const costInputs = await this.loadCostInputs();
+    const feeEstimated = costInputs.feeSource === 'estimate_automation_fee';
+    if (feeEstimated) {
+      automationFeeCap = costInputs.feePerEpoch * BigInt(3);
+      this.logger.log('✅ Estimated fee with buffer:', Number(automationFeeCap) / 1000000, 'SUPRA');
+    } else {
+      this.logger.log('⚠️ Using default fee cap');
+    }
 
-    const functionArgs: Uint8Array[] = [
-      new HexString(params.targetAddress).toUint8Array()
-    ];
+    await this.validateAccountBalance(funding, automationFeeCap);
 
-    const moduleAddr = this.config.contractAddress.replace('0x', '');
-    const expiryTime = Math.floor(Date.now() / 1000) + (24 * 60 * 60);
+    const serializedTx = await this.config.chain.buildAutomationRegistration(
+      senderAddr,
+      sequenceNumber,
+      {
+        moduleAddress: this.config.contractAddress,
+        moduleName: this.config.modulePrefix,
+        functionName: definition.entryFunction,
+        typeArgs: [new TxnBuilderTypes.TypeTagParser(coin.coinType).parseTypeTag()],
+        args: functionArgs
+      },
+      {
+        maxGasAmount: this.config.automationMaxGas!,
+        gasPriceCap: this.config.automationGasPriceCap!,
+        feeCapForEpoch: automationFeeCap,
+        expirationTimestampSecs: BigInt(expiryTime)
+      }
+    );
+    this.logger.log('✅ Transaction serialized successfully');
 
-    console.log('🔧 Creating automation registration...');
-    console.log('📍 Contract:', this.config.contractAddress);
-    console.log('🎯 Function: autofinal::auto_topup_with_state');
-    console.log('📋 Target:', params.targetAddress);
+    return {
+      serializedTx,
+      summary: {
+        fundingAccount: funding.name,
+        sender: senderAddr,
+        sequenceNumber: sequenceNumber.toString(),
+        function: `${this.config.contractAddress}::${this.config.modulePrefix}::${definition.entryFunction}`,
+        strategyType: params.type,
+        target: params.parameters.target,
+        coinType: coin.coinType,
+        parameters: params.parameters,
+        maxGasAmount: this.config.automationMaxGas!.toString(),
+        gasPriceCap: this.config.automationGasPriceCap!.toString(),
+        automationFeeCap: automationFeeCap.toString(),
+        automationFeeCapSupra: Number(automationFeeCap) / 1000000,
+        feeCapSource: feeEstimated ? 'estimate_automation_fee x3' : 'default',
+        expiresAt: new Date(expiryTime * 1000)
+      }
+    };
+  }
 
+  private async deployRealAutomation(funding: NamedAccount, serializedTx: Uint8Array): Promise<{ txHash: string; taskId?: number; gasUsed: bigint; fee: bigint }> {
     try {
-      let automationFeeCap = BigInt(50000000000);
-      
-      try {
-        console.log('Estimating automation fee...');
-        const feeEstimate = await this.config.supraCient.invokeViewMethod(
-          "0x1::automation_registry::estimate_automation_fee",
-          [],
-          [BigInt(5000).toString()]
-        );
-        
-        if (feeEstimate && feeEstimate[0]) {
-          automationFeeCap = BigInt(feeEstimate[0]) * BigInt(3);
-          console.log('✅ Estimated fee with buffer:', Number(automationFeeCap) / 1000000, 'SUPRA');
-        }
-      } catch (feeError: any) {
-        console.log('⚠️ Using default fee cap');
-      }
-
-      await this.validateAccountBalance(senderAddr, automationFeeCap);
-
-      const serializedAutomationTx = this.config.supraCient.createSerializedAutomationRegistrationTxPayloadRawTxObject(
-        senderAddr,
-        sequenceNumber,
-        moduleAddr,
-        "autofinal",  
-        "auto_topup_with_state",  
-        [], 
-        functionArgs,
-        BigInt(5000),
-        BigInt(200),     
-        automationFeeCap,  
-        BigInt(expiryTime),
-        []
-      );
-
-      console.log('✅ Transaction serialized successfully');
-      const result = await this.config.supraCient.sendTxUsingSerializedRawTransaction(
-        this.config.userAccount,
-        serializedAutomationTx
-      );
-
-      const txHash = this.extractTransactionHash(result);
-
-      if (!txHash) {
-        throw new Error('No transaction hash returned');
+      const txHash = await this.config.chain.submitTransaction(funding.signer, serializedTx);
+      this.logger.log('🎯 Submitted! Hash:', txHash);
+      const confirmation = await this.waitForTransaction(txHash, funding.address);
+      if (confirmation.status !== TransactionStatus.Success) {
+        throw new Error(`Registration transaction ${txHash} aborted: ${confirmation.vmStatus ?? confirmation.status}`);
+      }
+      const taskId = extractTaskIndex(confirmation.events);
+      if (taskId === undefined) {
+        this.logger.log('⚠️ Task index not found in transaction events - run reconciliation to link it');
       }
-       console.log('🎯 SUCCESS! Hash:', txHash);
-     await this.confirmTransactionSubmission(txHash);
       return {
         txHash,
-        taskId: parseInt(txHash.slice(-8), 16)
-      };    } catch (error: any) {
-      console.error('❌ Deployment failed:', error.message);
+        taskId,
+        gasUsed: confirmation.gasUsed,
+        fee: confirmation.fee
+      };
+    } catch (error: any) {
+      this.logger.error('❌ Deployment failed:', error.message);
       throw error;
     }
   }
-  private async confirmTransactionSubmission(txHash: string): Promise<void> {
-    console.log('⏳ Transaction submitted successfully...');
-    console.log(`🎯 Transaction Hash: ${txHash}`);
-     console.log('⏳ Allowing time for blockchain processing...');
-    await new Promise(resolve => setTimeout(resolve, 10000)); 
-    console.log('✅ Transaction processing time completed');
-    console.log('💡 Check transaction status in Supra Explorer:');
-    console.log(`https://testnet.suprascan.io/tx/${txHash}`);
-        try {
-      const accountInfo = await this.config.supraCient.getAccountInfo(this.config.userAccount.address());
-      if (accountInfo) {
-        console.log('✅ Account info accessible - transaction likely processed');
+  private async waitForTransaction(txHash: string, sender: string, timeoutMs: number = this.config.timeoutMs!): Promise<TransactionConfirmation> {
+    const deadline = Date.now() + timeoutMs;
+    let delayMs = 500;
+    this.logger.log(`⏳ Waiting for confirmation of ${txHash}...`);
+    while (true) {
+      let confirmation: TransactionConfirmation | null = null;
+      try {
+        confirmation = await this.config.chain.getTransaction(sender, txHash);
+      } catch (error) {
+        confirmation = null;
       }
-    } catch (error) {
-      console.log('ℹ️ Transaction submitted successfully');
+      if (confirmation && confirmation.status !== TransactionStatus.Pending) {
+        this.logger.log(`${confirmation.status === TransactionStatus.Success ? '✅' : '❌'} Transaction ${confirmation.status} (vm status: ${confirmation.vmStatus ?? 'n/a'}, gas used: ${confirmation.gasUsed})`);
+        this.logger.log(`https://testnet.suprascan.io/tx/${txHash}`);
+        return confirmation;
+      }
+      if (Date.now() + delayMs > deadline) {
+        throw new Error(`Transaction ${txHash} was not confirmed within ${timeoutMs / 1000}s - check https://testnet.suprascan.io/tx/${txHash}`);
+      }
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+      delayMs = Math.min(delayMs * 2, 5000);
     }
   }
-  private extractTransactionHash(result: any): string {
-    if (result?.hash) return result.hash;
-    if (result?.txHash) return result.txHash;
-    if (result?.transaction_hash) return result.transaction_hash;
-      if (typeof result === 'string' && result.startsWith('0x')) {
-      return result;
-    }    throw new Error(`No valid transaction hash found in result: ${JSON.stringify(result)}`);
-  }
-  private async validateAccountBalance(senderAddr: HexString, requiredFee: bigint): Promise<void> {
-    const balance = await this.config.supraCient.getAccountCoinBalance(
-      senderAddr,
-      '0x1::supra_coin::SupraCoin'
-    );
+  private async validateAccountBalance(funding: NamedAccount, requiredFee: bigint): Promise<void> {
+    const balance = await this.config.chain.getCoinBalance(funding.address);
     
-    const bufferAmount = BigInt(100000000);
-    if (balance < requiredFee + bufferAmount) {
-      throw new Error(`Insufficient balance. Required: ${Number(requiredFee + bufferAmount) / 1000000} SUPRA, Available: ${Number(balance) / 1000000} SUPRA`);
+    if (balance < requiredFee + BALANCE_BUFFER) {
+      throw new Error(`Insufficient balance in account "${funding.name}". Required: ${Number(requiredFee + BALANCE_BUFFER) / 1000000} SUPRA, Available: ${Number(balance) / 1000000} SUPRA`);
     }
-  }  private async getAccountBalance(address: string): Promise<bigint> {
+  }  private async getAccountBalance(address: string, coinType: string = SUPRA_COIN_TYPE): Promise<bigint> {
     try {
-      const balance = await this.config.supraCient.getAccountCoinBalance(
-        new HexString(address),
-        '0x1::supra_coin::SupraCoin'
-      );
-      return balance;
+      return await this.config.chain.getCoinBalance(address, coinType);
     } catch (error: any) {
-      console.log(`⚠️ Balance check failed for ${address}:`, error.message);
-      return BigInt(Math.floor(Math.random() * 100000000));
+      throw new Error(`Balance check failed for ${address}: ${error.message}`);
+    }
+  }
+  private validateLifetime(lifetimeHours: number): void {
+    if (!Number.isFinite(lifetimeHours) || lifetimeHours <= this.config.renewalWindowHours!) {
+      throw new Error(`Invalid task lifetime: ${lifetimeHours}h. Must be longer than the ${this.config.renewalWindowHours}h renewal window.`);
     }
-  }  private isValidAddress(address: string): boolean {
-    return /^0x[a-fA-F0-9]{64}$/.test(address);
   }
-  private async performPreDeploymentChecks(targetAddress: string): Promise<void> {
+  private async performPreDeploymentChecks(targetAddress: string, coin: CoinInfo): Promise<void> {
     try {
-      await this.config.supraCient.getAccountCoinBalance(
-        new HexString(targetAddress),
-        '0x1::supra_coin::SupraCoin'
-      );
+      await this.config.chain.getCoinBalance(targetAddress, coin.coinType);
     } catch (error) {
-      console.warn('⚠️ Target address may not be registered for SupraCoin');
+      this.logger.warn(`⚠️ Target address may not be registered for ${coin.symbol}`);
     }
   }
   private calculateAverageSuccessRate(): number {
@@ -510,40 +1132,105 @@ Remember: You're not just executing commands - you're an intelligent partner hel
     if (strategies.length === 0) return 1.0; 
     return strategies.reduce((sum, s) => sum + s.successRate, 0) / strategies.length;
   }
-  private async estimateMonthlyCost(): Promise<number> {
-    return 2.5;
+  private async loadCostInputs(): Promise<CostModelInputs> {
+    if (this.costInputsCache && Date.now() - this.costInputsCache.fetchedAt < COST_INPUTS_TTL_MS) {
+      return this.costInputsCache.inputs;
+    }
+    const inputs: CostModelInputs = {
+      feePerEpoch: BigInt(0),
+      feeSource: 'unavailable',
+      epochIntervalSecs: DEFAULT_EPOCH_INTERVAL_SECS,
+      epochIntervalSource: 'default',
+      maxGasAmount: this.config.automationMaxGas!,
+      gasPriceCap: this.config.automationGasPriceCap!
+    };
+    try {
+      const feeEstimate = await this.config.chain.view(
+        `${AUTOMATION_REGISTRY}::estimate_automation_fee`,
+        [],
+        [this.config.automationMaxGas!.toString()]
+      );
+      if (feeEstimate && feeEstimate[0]) {
+        inputs.feePerEpoch = BigInt(feeEstimate[0]);
+        inputs.feeSource = 'estimate_automation_fee';
+      }
+    } catch (error: any) {
+      this.logger.log('⚠️ Automation fee estimate unavailable:', error.message);
+    }
+    try {
+      const [epochInterval] = await this.config.chain.view('0x1::block::get_epoch_interval_secs', [], []);
+      if (Number(epochInterval) > 0) {
+        inputs.epochIntervalSecs = Number(epochInterval);
+        inputs.epochIntervalSource = 'chain';
+      }
+    } catch (error) {
+      this.logger.log(`⚠️ Epoch interval unavailable, assuming ${DEFAULT_EPOCH_INTERVAL_SECS}s`);
+    }
+    if (inputs.feeSource === 'estimate_automation_fee') {
+      this.costInputsCache = { inputs, fetchedAt: Date.now() };
+    }
+    return inputs;
+  }
+
+  private async estimateMonthlyCost(strategies: AutomationStrategy[] = this.getActiveStrategyList()): Promise<MonthlyCostProjection> {
+    return projectMonthlyCost(strategies.map(s => this.costedStrategy(s)), await this.loadCostInputs());
+  }
+
+  private getActiveStrategyList(): AutomationStrategy[] {
+    return Array.from(this.strategies.values()).filter(s => s.isActive);
   }
 
-  private async generateAnalytics(timeframe: string = '24h'): Promise<any> {
-    const strategies = Array.from(this.strategies.values());
-    const activeStrategies = strategies.filter(s => s.isActive);   
+  public async generateAnalytics(timeframe: string = '24h'): Promise<AnalyticsResult> {
+    if (!(timeframe in TIMEFRAMES)) {
+      return {
+        success: false,
+        error: `Unsupported timeframe: ${timeframe}`,
+        message: `Choose one of ${Object.keys(TIMEFRAMES).join(', ')}`
+      };
+    }
+    await this.syncExecutionEvents();
+    const measured: AutomationStrategy[] = [];
+    const unresolvedStrategyIds: string[] = [];
+    for (const strategy of this.strategies.values()) {
+      try {
+        await this.coins.resolve(strategy.coinType);
+        measured.push(strategy);
+      } catch (error: any) {
+        this.logger.warn(`⚠️ ${strategy.name}: ${error.message}; left out of analytics`);
+        unresolvedStrategyIds.push(strategy.id);
+      }
+    }
+    const analytics = buildTimeframeAnalytics(measured, timeframe, new Date(), s => this.coinOf(s), s => this.strategyTypes.get(s.type) ?? {});
+    const supraStrategies = measured.filter(s => this.coinOf(s).coinType === SUPRA_COIN_TYPE);
     return {
       success: true,
       analytics: {
-        overview: {
-          totalStrategies: strategies.length,
-          activeStrategies: activeStrategies.length,
-          totalExecutions: strategies.reduce((sum, s) => sum + s.executionCount, 0),
+        ...analytics,
+        lifetime: {
+          totalExecutions: Array.from(this.strategies.values()).reduce((sum, s) => sum + s.executionCount, 0),
           averageSuccessRate: this.calculateAverageSuccessRate(),
-          totalValueTransferred: Number(strategies.reduce((sum, s) => sum + s.totalTransferred, BigInt(0))) / 1000000
+          totalValueTransferred: toSupra(supraStrategies.reduce((sum, s) => sum + s.totalTransferred, BigInt(0))),
+          totalSwept: toSupra(supraStrategies
+            .filter(s => this.strategyTypes.get(s.type)?.returnsFunds)
+            .reduce((sum, s) => sum + s.totalTransferred, BigInt(0))),
+          transferredByCoin: this.transferredByCoin(measured)
         },
-        performance: {
-          healthyStrategies: activeStrategies.filter(s => s.successRate > 0.95).length,
-          warningStrategies: activeStrategies.filter(s => s.successRate <= 0.95 && s.successRate > 0.8).length,
-          criticalStrategies: activeStrategies.filter(s => s.successRate <= 0.8).length,
-          uptime: 0.995
-        },
-        costs: {
-          estimatedMonthlyCost: await this.estimateMonthlyCost(),
-          potentialSavings: 0.5,
-          feeEfficiency: 0.9
-        },
-        timeframe
+        costs: await this.estimateMonthlyCost(),
+        unresolvedStrategyIds
       },
       generatedAt: new Date(),
-      recommendations: ['Monitor your strategies regularly', 'Consider optimizing gas usage']
+      recommendations: deriveRecommendations(analytics)
     };
   }
+
+  private transferredByCoin(strategies: AutomationStrategy[]): Record<string, number> {
+    const totals: Record<string, number> = {};
+    for (const strategy of strategies) {
+      const coin = this.coinOf(strategy);
+      totals[coin.symbol] = (totals[coin.symbol] ?? 0) + fromBaseUnits(strategy.totalTransferred, coin);
+    }
+    return totals;
+  }
   private generateFriendlyErrorResponse(error: any): string {
     const errorMap = {
       'INSUFFICIENT_BALANCE': 'Your account balance is too low. Please add more SUPRA to continue.',
@@ -586,44 +1273,364 @@ Remember: You're not just executing commands - you're an intelligent partner hel
   }
 
   private startPerformanceMonitoring(): void {
+    // Unref'd so that an agent on its own does not keep the process (or a test run) alive.
     setInterval(() => {
       this.updateStrategyPerformance();
-    }, 5 * 60 * 1000);
+    }, 5 * 60 * 1000).unref();
   }
 
   private async updateStrategyPerformance(): Promise<void> {
+    await this.syncExecutionEvents();
     for (const [id, strategy] of this.strategies.entries()) {
       if (strategy.isActive) {
         strategy.lastChecked = new Date();
         this.strategies.set(id, strategy);
+        await this.persistStrategy(strategy);
       }
     }
   }
-  private async cancelStrategy(strategyId: string): Promise<any> {
+
+  public async syncExecutionEvents(): Promise<{ processed: number; latestHeight?: number }> {
+    await this.ready;
+    const tracked = Array.from(this.strategies.values())
+      .filter(s => s.isActive || (s.cancelledAt && Date.now() - s.cancelledAt.getTime() < 24 * 60 * 60 * 1000));
+    if (tracked.length === 0) return { processed: 0 };
+    try {
+      let processed = 0;
+      let latestHeight: number | undefined;
+      for (const [accountName, group] of this.groupByFundingAccount(tracked)) {
+        const funding = this.accounts.get(accountName);
+        if (!funding) continue;
+        const watermarks = group.map(s => s.indexedThroughBlock);
+        const fromHeight = watermarks.some(w => w === undefined)
+          ? undefined
+          : Math.min(...(watermarks as number[])) + 1;
+        const result = await this.eventIndexer.fetchExecutions(funding.address, fromHeight);
+        latestHeight = result.latestHeight;
+
+        for (const execution of result.executions) {
+          const strategy = this.attributeExecution(group, execution);
+          if (!strategy) continue;
+          this.applyExecution(strategy, execution, await this.coins.resolve(strategy.coinType));
+          processed++;
+        }
+        for (const strategy of group) {
+          strategy.indexedThroughBlock = result.latestHeight;
+          await this.persistStrategy(strategy);
+        }
+      }
+      return { processed, latestHeight };
+    } catch (error: any) {
+      this.logger.log('⚠️ Event indexing failed:', error.message);
+      this.emit('indexerError', { error });
+      return { processed: 0 };
+    }
+  }
+
+  private groupByFundingAccount(strategies: AutomationStrategy[]): Map<string, AutomationStrategy[]> {
+    const groups = new Map<string, AutomationStrategy[]>();
+    for (const strategy of strategies) {
+      const name = strategy.fundingAccount ?? DEFAULT_ACCOUNT_NAME;
+      groups.set(name, [...(groups.get(name) ?? []), strategy]);
+    }
+    return groups;
+  }
+
+  private recordHistory(strategy: AutomationStrategy, record: ExecutionRecord): void {
+    strategy.executionHistory.push(record);
+    if (strategy.executionHistory.length > MAX_EXECUTION_HISTORY) {
+      strategy.executionHistory = strategy.executionHistory.slice(-MAX_EXECUTION_HISTORY);
+    }
+  }
+
+  private attributeExecution(strategies: AutomationStrategy[], execution: IndexedExecution): AutomationStrategy | undefined {
+    return strategies
+      .filter(s => {
+        const coin = this.coins.peek(s.coinType);
+        return !!coin && !!this.strategyTypes.get(s.type)?.matchesExecution(s.parameters, execution, coin);
+      })
+      .filter(s => s.indexedThroughBlock === undefined || execution.blockHeight > s.indexedThroughBlock)
+      .filter(s => s.createdAt.getTime() <= execution.timestamp.getTime() + 1000)
+      .filter(s => !s.cancelledAt || s.cancelledAt.getTime() >= execution.timestamp.getTime())
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
+  }
+
+  private applyExecution(strategy: AutomationStrategy, execution: IndexedExecution, coin: CoinInfo): void {
+    strategy.executionCount++;
+    if (!execution.success) {
+      strategy.failureCount++;
+    }
+    strategy.successRate = (strategy.executionCount - strategy.failureCount) / strategy.executionCount;
+    strategy.totalTransferred += execution.amount;
+    strategy.lastExecution = {
+      timestamp: execution.timestamp,
+      success: execution.success
+    };
+    this.recordHistory(strategy, {
+      timestamp: execution.timestamp,
+      action: execution.action,
+      success: execution.success,
+      amount: execution.amount,
+      fee: BigInt(0),
+      blockHeight: execution.blockHeight
+    });
+    this.performanceMetrics.totalExecutions++;
+
+    const event = this.strategyTypes.get(strategy.type)?.executionEvents?.[execution.action];
+    if (event) {
+      this.emit(event, { strategy, execution, coin });
+    } else if (!execution.success) {
+      this.emit('executionFailed', { strategy, execution, coin });
+    }
+  }
+  public async cancelStrategy(strategyId: string): Promise<CancelStrategyResult> {
     try {
       const strategy = this.strategies.get(strategyId);
       if (!strategy) {
-        return { success: false, message: "Strategy not found" };
+        return { success: false, error: 'STRATEGY_NOT_FOUND', message: "Strategy not found", strategyId };
+      }
+      if (!strategy.isActive) {
+        return { success: false, error: 'ALREADY_INACTIVE', message: `Strategy "${strategy.name}" is not active`, strategyId };
       }
+      if (strategy.taskId === undefined) {
+        return {
+          success: false,
+          error: 'TASK_ID_UNKNOWN',
+          message: `Strategy "${strategy.name}" has no known automation task id - run reconciliation before cancelling`,
+          strategyId
+        };
+      }
+
+      const funding = this.accounts.require(strategy.fundingAccount);
 
+      if (this.config.mode === 'dry-run') {
+        const serializedCancelTx = await this.buildTaskCancellation(strategy.taskId, funding);
+        return {
+          success: true,
+          mode: 'DRY_RUN',
+          message: `🧪 Dry run: task #${strategy.taskId} for "${strategy.name}" was not cancelled. This is the cancellation that would be sent.`,
+          strategyId,
+          wouldSend: {
+            function: `${AUTOMATION_REGISTRY}::cancel_task`,
+            taskId: strategy.taskId,
+            serializedTransaction: HexString.fromUint8Array(serializedCancelTx).toString()
+          }
+        };
+      }
+
+      const cancelResult = await this.submitTaskCancellation(strategy.taskId, funding);
+      if (cancelResult.status !== TransactionStatus.Success) {
+        this.emit('strategyCancelFailed', { strategy, txHash: cancelResult.txHash, status: cancelResult.status });
+        return {
+          success: false,
+          error: 'CANCEL_REJECTED',
+          txHash: cancelResult.txHash,
+          taskId: strategy.taskId,
+          message: `❌ Chain did not accept cancellation of task #${strategy.taskId} (status: ${cancelResult.status}). The automation task is still active.`,
+          strategyId
+        };
+      }
+
+      this.recordHistory(strategy, {
+        timestamp: new Date(),
+        action: 'cancellation',
+        success: true,
+        amount: BigInt(0),
+        fee: cancelResult.fee,
+        txHash: cancelResult.txHash
+      });
+      strategy.cancelTxHash = cancelResult.txHash;
+      strategy.cancelledAt = new Date();
+      strategy.chainStatus = 'cancelled';
       strategy.isActive = false;
+      await this.retireSupersededTasks(strategy, false);
       this.strategies.set(strategyId, strategy);
+      await this.persistStrategy(strategy);
+      this.emit('strategyCancelled', { strategy });
 
       return {
         success: true,
+        mode: 'LIVE',
         message: `✅ Successfully cancelled: ${strategy.name}`,
+        strategyId,
+        taskId: strategy.taskId,
+        txHash: cancelResult.txHash
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: 'CANCEL_FAILED',
+        message: `Failed to cancel strategy: ${error.message}`,
         strategyId
       };
+    }
+  }
+
+  /**
+   * Registers a fresh task with the strategy's parameters and links it to the same strategy.
+   * The superseded task id is kept in `previousTaskIds` so reconciliation does not import it again,
+   * and in `retiringTaskIds` until the new task is active and the old one can be cancelled.
+   */
+  public async renewStrategy(strategyId: string, lifetimeHours?: number): Promise<RenewStrategyResult> {
+    return this.renewStrategyWith(strategyId, lifetimeHours);
+  }
+
+  private async renewStrategyWith(strategyId: string, lifetimeHours?: number, prepared?: PreparedRegistration): Promise<RenewStrategyResult> {
+    const strategy = this.strategies.get(strategyId);
+    if (!strategy) {
+      return { success: false, error: 'STRATEGY_NOT_FOUND', message: "Strategy not found", strategyId };
+    }
+    if (!strategy.isActive) {
+      return { success: false, error: 'ALREADY_INACTIVE', message: `Strategy "${strategy.name}" is not active`, strategyId };
+    }
+    try {
+      const params = this.renewalParams(strategy, lifetimeHours);
+      this.validateLifetime(params.lifetimeHours);
+      const funding = this.accounts.require(params.fundingAccount);
+      const registration = prepared ?? await this.buildAutomationRegistration(params);
+      const policyFailure = await this.checkSpendingPolicy(params, BigInt(registration.summary.automationFeeCap), strategy);
+      if (policyFailure) {
+        return policyFailure;
+      }
+
+      if (this.config.mode === 'dry-run') {
+        return {
+          success: true,
+          mode: 'DRY_RUN',
+          message: `🧪 Dry run: "${strategy.name}" was not renewed. This is the registration that would be sent.`,
+          strategyId,
+          wouldSend: {
+            ...registration.summary,
+            serializedTransaction: HexString.fromUint8Array(registration.serializedTx).toString()
+          }
+        };
+      }
+
+      const realResult = await this.deployRealAutomation(funding, registration.serializedTx);
+      const previousTaskId = strategy.taskId;
+      this.recordHistory(strategy, {
+        timestamp: new Date(),
+        action: 'renewal',
+        success: true,
+        amount: BigInt(0),
+        fee: realResult.fee,
+        txHash: realResult.txHash
+      });
+
+      // The new task only starts at the next epoch, so the old one keeps the target covered until then.
+      if (previousTaskId !== undefined) {
+        strategy.previousTaskIds = [...(strategy.previousTaskIds ?? []), previousTaskId];
+        strategy.retiringTaskIds = [...(strategy.retiringTaskIds ?? []), previousTaskId];
+      }
+
+      strategy.taskId = realResult.taskId;
+      strategy.registrationTxHash = realResult.txHash;
+      strategy.chainStatus = realResult.taskId !== undefined ? 'pending' : undefined;
+      strategy.expiresAt = registration.summary.expiresAt;
+      strategy.renewedAt = new Date();
+      this.strategies.set(strategyId, strategy);
+      await this.persistStrategy(strategy);
+      this.emit('strategyRenewed', { strategy, previousTaskId });
+
+      return {
+        success: true,
+        mode: 'LIVE',
+        message: `🔁 Renewed "${strategy.name}" until ${strategy.expiresAt.toISOString()}` +
+          (previousTaskId !== undefined ? ` (task #${previousTaskId} keeps running until the new task is active, then it is cancelled)` : ''),
+        strategyId,
+        taskId: realResult.taskId,
+        previousTaskId,
+        txHash: realResult.txHash,
+        expiresAt: strategy.expiresAt
+      };
     } catch (error: any) {
+      this.emit('renewalFailed', { strategy, error });
       return {
         success: false,
-        error: error.message,
-        message: "Failed to cancel strategy"
+        error: 'RENEW_FAILED',
+        message: `❌ Failed to renew "${strategy.name}": ${error.message}`,
+        strategyId
       };
     }
   }
 
-  private listActiveStrategies(): any {
+  /**
+   * Cancels the tasks a renewal superseded, by default only once the strategy's current task is
+   * active; a cancelled strategy passes `waitForRenewedTask = false`.
+   */
+  private async retireSupersededTasks(strategy: AutomationStrategy, waitForRenewedTask = true): Promise<void> {
+    if (!strategy.retiringTaskIds?.length || this.config.mode === 'dry-run') return;
+    const funding = this.accounts.get(strategy.fundingAccount ?? DEFAULT_ACCOUNT_NAME);
+    if (!funding) return;
+    const tasks = await this.lookUpTasks([strategy.taskId, ...strategy.retiringTaskIds], normalizeAddress(funding.address));
+    // Without a lookup there is no telling which superseded tasks still run, so all are kept for the next pass.
+    if (!tasks) return;
+    if (waitForRenewedTask && tasks.find(t => t.taskIndex === strategy.taskId)?.state !== 'active') return;
+
+    const now = Math.floor(Date.now() / 1000);
+    const stillRunning: number[] = [];
+    for (const taskId of strategy.retiringTaskIds) {
+      const task = tasks.find(t => t.taskIndex === taskId);
+      if (!task || task.state === 'cancelled' || (task.expiryTime > 0 && task.expiryTime <= now)) continue;
+      try {
+        const cancelResult = await this.submitTaskCancellation(taskId, funding);
+        if (cancelResult.status !== TransactionStatus.Success) {
+          throw new Error(`transaction ${cancelResult.status}`);
+        }
+        this.recordHistory(strategy, {
+          timestamp: new Date(),
+          action: 'cancellation',
+          success: true,
+          amount: BigInt(0),
+          fee: cancelResult.fee,
+          txHash: cancelResult.txHash
+        });
+        this.emit('supersededTaskCancelled', { strategy, taskId });
+      } catch (error: any) {
+        this.logger.warn(`⚠️ Could not cancel superseded task #${taskId}, will retry: ${error.message}`);
+        stillRunning.push(taskId);
+      }
+    }
+    strategy.retiringTaskIds = stillRunning.length > 0 ? stillRunning : undefined;
+  }
+
+  private renewalParams(strategy: AutomationStrategy, lifetimeHours?: number): ResolvedStrategyRequest {
+    return {
+      type: strategy.type,
+      strategyName: strategy.name,
+      parameters: strategy.parameters,
+      fundingAccount: strategy.fundingAccount ?? DEFAULT_ACCOUNT_NAME,
+      lifetimeHours: lifetimeHours ?? this.config.defaultLifetimeHours!,
+      coinType: strategy.coinType ?? SUPRA_COIN_TYPE
+    };
+  }
+
+  private hoursUntilExpiry(strategy: AutomationStrategy): number | undefined {
+    return strategy.expiresAt ? (strategy.expiresAt.getTime() - Date.now()) / (60 * 60 * 1000) : undefined;
+  }
+
+  private async buildTaskCancellation(taskId: number, funding: NamedAccount): Promise<Uint8Array> {
+    const senderAddr = funding.address;
+    const { sequenceNumber } = await this.config.chain.getAccountInfo(senderAddr);
+    const [registryAddr, registryModule] = AUTOMATION_REGISTRY.split('::');
+    return this.config.chain.buildTransaction(senderAddr, sequenceNumber, {
+      moduleAddress: normalizeAddress(registryAddr),
+      moduleName: registryModule,
+      functionName: "cancel_task",
+      typeArgs: [],
+      args: [BCS.bcsSerializeUint64(BigInt(taskId))]
+    });
+  }
+
+  private async submitTaskCancellation(taskId: number, funding: NamedAccount): Promise<{ txHash: string; status: TransactionStatus; fee: bigint }> {
+    this.logger.log(`🛑 Cancelling automation task #${taskId} from account ${funding.name}...`);
+    const serializedCancelTx = await this.buildTaskCancellation(taskId, funding);
+    const txHash = await this.config.chain.submitTransaction(funding.signer, serializedCancelTx);
+    const confirmation = await this.waitForTransaction(txHash, funding.address);
+    return { txHash, status: confirmation.status, fee: confirmation.fee };
+  }
+
+  public listActiveStrategies(): ListStrategiesResult {
     const activeStrategies = Array.from(this.strategies.values())
       .filter(s => s.isActive)
       .map(s => ({
@@ -633,6 +1640,11 @@ Remember: You're not just executing commands - you're an intelligent partner hel
         description: s.description,
         createdAt: s.createdAt,
         parameters: s.parameters,
+        details: this.formatParameters(s),
+        fundingAccount: s.fundingAccount,
+        taskId: s.taskId,
+        chainStatus: s.chainStatus,
+        expiresAt: s.expiresAt,
         executionCount: s.executionCount,
         successRate: s.successRate
       }));
@@ -644,36 +1656,89 @@ Remember: You're not just executing commands - you're an intelligent partner hel
     };
   }
 
-  private async checkStrategyStatus(strategyId?: string): Promise<any> {
+  public getActiveAccount(): AccountSummary {
+    return this.summarizeAccount(this.accounts.active);
+  }
+
+  public async listAccounts(): Promise<ListAccountsResult> {
+    const accounts: AccountSummary[] = [];
+    for (const funding of this.accounts.list()) {
+      const summary = this.summarizeAccount(funding);
+      try {
+        summary.balanceSupra = toSupra(await this.config.chain.getCoinBalance(funding.address));
+      } catch (error: any) {
+        summary.balanceError = error.message;
+      }
+      accounts.push(summary);
+    }
+    return { success: true, accounts, activeAccount: this.accounts.active.name };
+  }
+
+  public useAccount(name: string): UseAccountResult {
+    try {
+      const funding = this.accounts.use(name);
+      this.emit('accountChanged', { account: funding.name, address: funding.address });
+      return {
+        success: true,
+        account: this.summarizeAccount(funding),
+        message: `💳 New strategies are now funded by "${funding.name}" (${funding.address})`
+      };
+    } catch (error: any) {
+      return { success: false, error: 'ACCOUNT_NOT_FOUND', message: error.message };
+    }
+  }
+
+  private summarizeAccount(funding: NamedAccount): AccountSummary {
+    return {
+      name: funding.name,
+      address: funding.address,
+      active: funding.name === this.accounts.active.name,
+      activeStrategies: this.getActiveStrategyList().filter(s => s.fundingAccount === funding.name).length
+    };
+  }
+
+  public async checkStrategyStatus(strategyId?: string): Promise<CheckStatusResult> {
     try {
       if (strategyId) {
         const strategy = this.strategies.get(strategyId);
         if (!strategy) {
-          return { success: false, message: "Strategy not found" };
+          return { success: false, error: 'STRATEGY_NOT_FOUND', message: "Strategy not found" };
         }
-        const balance = await this.getAccountBalance(strategy.parameters.target);        
+        const coin = await this.coins.resolve(strategy.coinType);
+        const balance = await this.getAccountBalance(this.monitoredAddress(strategy), coin.coinType);
         return {
           success: true,
           strategy: {
             ...strategy,
-            currentBalance: balance.toString(),
-            balanceInSupra: Number(balance) / 1000000,
+            ...this.balanceFields(balance, coin),
             lastChecked: new Date(),
-            healthStatus: this.calculateHealthStatus(strategy, balance)
+            healthStatus: this.calculateHealthStatus(strategy, balance, coin, await this.readRecordedRuns(strategy))
           }
         };
       } else {
-        const statusChecks = [];
+        const statusChecks: StrategyStatus[] = [];
         for (const [id, strategy] of this.strategies.entries()) {
           if (strategy.isActive) {
-            const balance = await this.getAccountBalance(strategy.parameters.target);
-            statusChecks.push({
-              ...strategy,
-              currentBalance: balance.toString(),
-              balanceInSupra: Number(balance) / 1000000,
-              lastChecked: new Date(),
-              healthStatus: this.calculateHealthStatus(strategy, balance)
-            });
+            try {
+              const coin = await this.coins.resolve(strategy.coinType);
+              const balance = await this.getAccountBalance(this.monitoredAddress(strategy), coin.coinType);
+              statusChecks.push({
+                ...strategy,
+                ...this.balanceFields(balance, coin),
+                lastChecked: new Date(),
+                healthStatus: this.calculateHealthStatus(strategy, balance, coin, await this.readRecordedRuns(strategy))
+              });
+            } catch (balanceError: any) {
+              statusChecks.push({
+                ...strategy,
+                balanceError: balanceError.message,
+                healthStatus: {
+                  status: 'unknown',
+                  ...this.expiryHealth(strategy),
+                  recommendation: this.withExpiryAdvice(strategy, 'Balance could not be read from the RPC - retry later')
+                }
+              });
+            }
           }
         }
         return {
@@ -691,49 +1756,351 @@ Remember: You're not just executing commands - you're an intelligent partner hel
     }
   }
 
-  private calculateHealthStatus(strategy: AutomationStrategy, balance: bigint): any {
-    const threshold = BigInt(600_000_000);
-        return {
-      status: balance >= threshold ? 'healthy' : 'needs_topup',
-      balanceRatio: Number(balance) / Number(threshold),
-      willTrigger: balance < threshold,
-      recommendation: balance < threshold 
-        ? 'Top-up will trigger automatically' 
-        : 'Balance is healthy'
+  /** The wallet whose balance a strategy watches: its target unless the type says otherwise. */
+  private monitoredAddress(strategy: AutomationStrategy): string {
+    const definition = this.strategyTypes.get(strategy.type);
+    const funding = this.accounts.get(strategy.fundingAccount ?? DEFAULT_ACCOUNT_NAME);
+    return definition?.balanceAddress && funding
+      ? definition.balanceAddress(strategy.parameters, funding.address)
+      : strategy.parameters.target;
+  }
+
+  /** `balanceInSupra` is only set for SUPRA strategies; other coins report `balanceInCoin`. */
+  private balanceFields(balance: bigint, coin: CoinInfo): Pick<StrategyStatus, 'currentBalance' | 'balanceInCoin' | 'balanceInSupra' | 'coinSymbol'> {
+    return {
+      currentBalance: balance.toString(),
+      balanceInCoin: fromBaseUnits(balance, coin),
+      balanceInSupra: coin.coinType === SUPRA_COIN_TYPE ? fromBaseUnits(balance, coin) : undefined,
+      coinSymbol: coin.symbol
     };
   }
 
-  private generateStatusSummary(strategies: any[]): any {
+  /** What the contract recorded for the strategy, when its type reads such a record and the view answers. */
+  private async readRecordedRuns(strategy: AutomationStrategy): Promise<RecordedRuns | undefined> {
+    const definition = this.strategyTypes.get(strategy.type);
+    const funding = this.accounts.get(strategy.fundingAccount ?? DEFAULT_ACCOUNT_NAME);
+    if (!definition?.readRecordedRuns || !funding) return undefined;
+    try {
+      return await definition.readRecordedRuns(strategy.parameters, funding.address, (functionName, args) =>
+        this.config.chain.view(`${this.config.contractAddress}::${this.config.modulePrefix}::${functionName}`, [], args));
+    } catch (error: any) {
+      this.logger.warn(`⚠️ ${strategy.name}: could not read the contract's record (${error.message}); using indexed executions`);
+      return undefined;
+    }
+  }
+
+  private calculateHealthStatus(strategy: AutomationStrategy, balance: bigint, coin: CoinInfo, recorded?: RecordedRuns): HealthStatus {
+    const definition = this.strategyTypes.get(strategy.type);
+    const health: HealthStatus = definition
+      ? definition.calculateHealth(strategy, balance, coin, recorded)
+      : { status: 'unknown', recommendation: `Strategy type "${strategy.type}" is not registered with this agent` };
+    return {
+      ...health,
+      ...this.expiryHealth(strategy),
+      recommendation: this.withExpiryAdvice(strategy, health.recommendation)
+    };
+  }
+
+  private expiryHealth(strategy: AutomationStrategy): Pick<HealthStatus, 'hoursUntilExpiry' | 'expiringSoon'> {
+    const hoursLeft = this.hoursUntilExpiry(strategy);
+    if (hoursLeft === undefined) return {};
+    return {
+      hoursUntilExpiry: Math.round(hoursLeft * 10) / 10,
+      expiringSoon: hoursLeft <= this.config.expiryWarningHours!
+    };
+  }
+
+  private withExpiryAdvice(strategy: AutomationStrategy, recommendation: string): string {
+    const hoursLeft = this.hoursUntilExpiry(strategy);
+    if (hoursLeft === undefined || hoursLeft > this.config.expiryWarningHours!) return recommendation;
+    return `${recommendation}. Automation task expires in ${Math.max(0, hoursLeft).toFixed(1)}h - ` +
+      (this.config.autoRenew ? 'it is renewed automatically while the agent runs' : 'renew it to keep the strategy running');
+  }
+
+  private generateStatusSummary(strategies: StrategyStatus[]): StatusSummary {
     const healthy = strategies.filter(s => s.healthStatus.status === 'healthy').length;
     const needsTopup = strategies.filter(s => s.healthStatus.status === 'needs_topup').length;
+    const unknown = strategies.filter(s => s.healthStatus.status === 'unknown').length;
+    const expiringSoon = strategies.filter(s => s.healthStatus.expiringSoon).length;
     return {
       totalStrategies: strategies.length,
       healthyStrategies: healthy,
       strategiesNeedingTopup: needsTopup,
+      strategiesWithUnknownBalance: unknown,
+      strategiesExpiringSoon: expiringSoon,
       overallHealth: needsTopup === 0 ? 'excellent' : needsTopup < strategies.length / 2 ? 'good' : 'attention_needed'
     };
   }
 
+  public async reconcileStrategies(): Promise<ReconcileResult> {
+    await this.ready;
+    try {
+      const now = Math.floor(Date.now() / 1000);
+      const linked: ReconcileSuccess['linked'] = [];
+      const flagged: ReconcileSuccess['flagged'] = [];
+      const imported: ReconcileSuccess['imported'] = [];
+      const unrecognized: number[] = [];
+      const unresolved: number[] = [];
+      let onChainTasks = 0;
+      const supersededTaskIds = Array.from(this.strategies.values()).flatMap(s => s.previousTaskIds ?? []);
+      const activeTasks = await fetchActiveTasks(this.config.chain);
+
+      // Tasks are owned by the account that registered them, so each account is reconciled on its own.
+      for (const funding of this.accounts.list()) {
+        const owner = normalizeAddress(funding.address);
+        const tasks = activeTasks.filter(t => t.owner === owner);
+        onChainTasks += tasks.length;
+        const unresolvedTasks = await this.resolveTaskCoins(tasks);
+        const unresolvedCoins = new Set(unresolvedTasks.map(t => normalizeCoinType(this.taskCoinType(t.payload!))));
+        // Tasks replaced by a renewal are neither matched to their strategy again nor imported.
+        const matchedTaskIds = new Set<number>(supersededTaskIds);
+        const accountStrategies = Array.from(this.strategies.values()).filter(s => s.fundingAccount === funding.name);
+        const unmatched: AutomationStrategy[] = [];
+
+        for (const strategy of accountStrategies) {
+          const task = this.findTaskForStrategy(strategy, tasks, matchedTaskIds);
+          if (task) {
+            matchedTaskIds.add(task.taskIndex);
+            if (strategy.taskId !== task.taskIndex) {
+              linked.push({ strategyId: strategy.id, previousTaskId: strategy.taskId, taskId: task.taskIndex });
+              strategy.taskId = task.taskIndex;
+            }
+            this.applyTaskState(strategy, task, now);
+          } else if (strategy.isActive) {
+            unmatched.push(strategy);
+          }
+        }
+
+        // The active list can lag or come back empty, so a task missing from it is looked up
+        // directly; only a confirmed cancellation or expiry deactivates its strategy.
+        // A failed lookup finds none, which leaves the strategies flagged but active.
+        const lookedUp = await this.lookUpTasks(unmatched.map(s => s.taskId), owner) ?? [];
+        for (const strategy of unmatched) {
+          const task = lookedUp.find(t => t.taskIndex === strategy.taskId);
+          if (task) {
+            this.applyTaskState(strategy, task, now);
+          } else if (unresolvedCoins.has(normalizeCoinType(strategy.coinType ?? SUPRA_COIN_TYPE))) {
+            // Its task may be one whose coin could not be decoded, so its status is left until the coin resolves.
+            continue;
+          } else {
+            strategy.chainStatus = strategy.expiresAt && strategy.expiresAt.getTime() <= Date.now() ? 'expired' : 'missing';
+          }
+        }
+
+        for (const strategy of accountStrategies) {
+          if (strategy.isActive && (strategy.chainStatus === 'expired' || strategy.chainStatus === 'cancelled')) {
+            strategy.isActive = false;
+            flagged.push({ strategyId: strategy.id, name: strategy.name, taskId: strategy.taskId, chainStatus: strategy.chainStatus, deactivated: true });
+            this.emit('strategyOutOfSync', { strategy });
+          } else if (strategy.isActive && strategy.chainStatus === 'missing') {
+            flagged.push({ strategyId: strategy.id, name: strategy.name, taskId: strategy.taskId, chainStatus: strategy.chainStatus, deactivated: false });
+          }
+          if (strategy.isActive && strategy.chainStatus === 'active') {
+            await this.retireSupersededTasks(strategy);
+          }
+          strategy.lastReconciledAt = new Date();
+          await this.persistStrategy(strategy);
+        }
+
+        for (const task of tasks) {
+          if (matchedTaskIds.has(task.taskIndex)) continue;
+          if (unresolvedTasks.includes(task)) {
+            unresolved.push(task.taskIndex);
+            continue;
+          }
+          const strategy = this.importTaskAsStrategy(task, funding.name);
+          if (!strategy) {
+            unrecognized.push(task.taskIndex);
+            continue;
+          }
+          this.strategies.set(strategy.id, strategy);
+          await this.persistStrategy(strategy);
+          imported.push({ strategyId: strategy.id, taskId: task.taskIndex, target: strategy.parameters.target });
+        }
+      }
+
+      return {
+        success: true,
+        onChainTasks,
+        linked,
+        imported,
+        flagged,
+        unrecognizedTaskIds: unrecognized,
+        unresolvedTaskIds: unresolved,
+        message: `✅ Reconciled ${this.strategies.size} strategies against ${onChainTasks} on-chain tasks across ${this.accounts.size} account(s)`
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message,
+        message: "Failed to reconcile strategies with the automation registry"
+      };
+    }
+  }
+
+  private applyTaskState(strategy: AutomationStrategy, task: AutomationTaskInfo, now: number): void {
+    strategy.chainStatus = task.expiryTime > 0 && task.expiryTime <= now ? 'expired' : task.state;
+    if (task.expiryTime > 0) {
+      strategy.expiresAt = new Date(task.expiryTime * 1000);
+    }
+  }
+
+  /** Tasks of `owner` read by id, or null when the lookup failed. */
+  private async lookUpTasks(taskIds: Array<number | undefined>, owner: string): Promise<AutomationTaskInfo[] | null> {
+    const known = taskIds.filter((id): id is number => id !== undefined);
+    if (known.length === 0) return [];
+    try {
+      return (await fetchTaskDetails(this.config.chain, known)).filter(t => t.owner === owner);
+    } catch (error: any) {
+      this.logger.warn(`⚠️ Could not look up tasks ${known.map(id => `#${id}`).join(', ')}: ${error.message}`);
+      return null;
+    }
+  }
+
+  private findTaskForStrategy(
+    strategy: AutomationStrategy,
+    tasks: AutomationTaskInfo[],
+    matchedTaskIds: Set<number>
+  ): AutomationTaskInfo | undefined {
+    const available = tasks.filter(t => !matchedTaskIds.has(t.taskIndex));
+    if (strategy.registrationTxHash) {
+      const byHash = available.find(t => t.txHash.toLowerCase() === strategy.registrationTxHash!.toLowerCase());
+      if (byHash) return byHash;
+    }
+    if (strategy.taskId !== undefined) {
+      const byId = available.find(t => t.taskIndex === strategy.taskId);
+      if (byId) return byId;
+    }
+    if (!strategy.isActive) return undefined;
+    const target = normalizeAddress(strategy.parameters.target);
+    const coinType = normalizeCoinType(strategy.coinType ?? SUPRA_COIN_TYPE);
+    return available.find(t => {
+      const decoded = this.decodeOwnTask(t);
+      return decoded?.definition.type === strategy.type
+        && normalizeAddress(decoded.parameters.target) === target
+        && decoded.coin.coinType === coinType;
+    });
+  }
+
+  private isOwnTask(task: AutomationTaskInfo): task is AutomationTaskInfo & { payload: DecodedEntryFunction } {
+    return !!task.payload
+      && task.payload.moduleAddress === normalizeAddress(this.config.contractAddress)
+      && task.payload.moduleName === this.config.modulePrefix;
+  }
+
+  /** Tasks registered before coin types existed call the SupraCoin-only entry functions without type arguments. */
+  private taskCoinType(payload: DecodedEntryFunction): string {
+    return payload.typeArgs[0] ?? SUPRA_COIN_TYPE;
+  }
+
+  /** Loads metadata for the coins of this agent's tasks so they can be decoded; returns the tasks whose coin failed to load. */
+  private async resolveTaskCoins(tasks: AutomationTaskInfo[]): Promise<AutomationTaskInfo[]> {
+    const unresolved: AutomationTaskInfo[] = [];
+    for (const task of tasks.filter(t => this.isOwnTask(t))) {
+      try {
+        await this.coins.resolve(this.taskCoinType(task.payload!));
+      } catch (error: any) {
+        this.logger.warn(`⚠️ Task #${task.taskIndex}: ${error.message}`);
+        unresolved.push(task);
+      }
+    }
+    return unresolved;
+  }
+
+  /** Matches a task against the registered strategy types, if it calls this agent's module. */
+  private decodeOwnTask(task: AutomationTaskInfo): { definition: StrategyTypeDefinition; parameters: StrategyParameters; coin: CoinInfo } | null {
+    if (!this.isOwnTask(task)) return null;
+    const coin = this.coins.peek(this.taskCoinType(task.payload));
+    if (!coin) return null;
+    const decoded = this.strategyTypes.decodeTask(task.payload, coin);
+    return decoded ? { ...decoded, coin } : null;
+  }
+
+  private importTaskAsStrategy(task: AutomationTaskInfo, fundingAccount: string): AutomationStrategy | null {
+    const decoded = this.decodeOwnTask(task);
+    if (!decoded) return null;
+    const { definition, parameters, coin } = decoded;
+    return {
+      id: `${definition.idPrefix}_imported_${task.taskIndex}`,
+      type: definition.type,
+      name: `Imported task #${task.taskIndex}`,
+      description: `${definition.describe(parameters, coin)} (imported from the automation registry)`,
+      parameters,
+      coinType: coin.coinType,
+      fundingAccount,
+      taskId: task.taskIndex,
+      registrationTxHash: task.txHash || undefined,
+      chainStatus: task.state,
+      expiresAt: task.expiryTime > 0 ? new Date(task.expiryTime * 1000) : undefined,
+      lastReconciledAt: new Date(),
+      isActive: true,
+      // Executions before createdAt are not attributed, so an unknown registration time keeps all indexed history.
+      createdAt: new Date(task.registrationTime * 1000),
+      executionCount: 0,
+      failureCount: 0,
+      successRate: 1.0,
+      totalTransferred: BigInt(0),
+      executionHistory: []
+    };
+  }
+
   public async runPeriodicCheck(): Promise<void> {
-    console.log('🔄 Running optimized strategy check...');
+    await this.ready;
+    this.logger.log('🔄 Running optimized strategy check...');
     for (const [id, strategy] of this.strategies.entries()) {
-      if (!strategy.isActive) continue;
+      // A cancelled strategy can still list superseded tasks whose cancellation has not gone through.
+      if (!strategy.isActive && !strategy.retiringTaskIds?.length) continue;
       try {
-        const balance = await this.getAccountBalance(strategy.parameters.target);
-        const threshold = BigInt(600_000_000);
-        if (balance < threshold * 2n) {
-          console.log(`⚠️ ${strategy.name}: Balance getting low (${Number(balance) / 1000000} SUPRA)`);
-          this.emit('lowBalanceAlert', { strategy, balance });
+        if (!strategy.isActive) {
+          await this.retireSupersededTasks(strategy, false);
+          await this.persistStrategy(strategy);
+          continue;
+        }
+        await this.retireSupersededTasks(strategy);
+        if (!(await this.checkExpiry(strategy))) continue;
+        const coin = await this.coins.resolve(strategy.coinType);
+        const balance = await this.getAccountBalance(this.monitoredAddress(strategy), coin.coinType);
+        const alert = this.strategyTypes.get(strategy.type)?.balanceAlert?.(strategy, balance, coin);
+        if (alert) {
+          this.logger.log(`⚠️ ${strategy.name}: ${alert}`);
+          this.emit('balanceAlert', { strategy, balance, coin, message: alert });
+          // Emitted under its original name as well so existing listeners keep working.
+          this.emit('lowBalanceAlert', { strategy, balance, coin, message: alert });
         }
         strategy.lastChecked = new Date();
         this.strategies.set(id, strategy);
+        await this.persistStrategy(strategy);
       } catch (error) {
-        console.error(`❌ Error checking strategy ${id}:`, error);
+        this.logger.error(`❌ Error checking strategy ${id}:`, error);
         this.emit('strategyError', { strategyId: id, error });
       }
     }
   }
 
+  /** Renews or warns about tasks close to expiry unless the strategy is complete; returns false once it has expired. */
+  private async checkExpiry(strategy: AutomationStrategy): Promise<boolean> {
+    const hoursLeft = this.hoursUntilExpiry(strategy);
+    if (hoursLeft === undefined) return true;
+    if (hoursLeft <= 0) {
+      this.logger.log(`⌛ ${strategy.name}: automation task #${strategy.taskId} has expired`);
+      strategy.chainStatus = 'expired';
+      strategy.isActive = false;
+      await this.persistStrategy(strategy);
+      this.emit('strategyExpired', { strategy });
+      return false;
+    }
+    const complete = this.strategyTypes.get(strategy.type)?.isComplete?.(strategy, await this.readRecordedRuns(strategy)) ?? false;
+    if (this.config.autoRenew && this.config.mode !== 'dry-run' && !complete && hoursLeft <= this.config.renewalWindowHours!) {
+      this.logger.log(`🔁 ${strategy.name}: task expires in ${hoursLeft.toFixed(1)}h, renewing...`);
+      const result = await this.renewStrategy(strategy.id);
+      if (result.success) return true;
+    }
+    if (!complete && hoursLeft <= this.config.expiryWarningHours!) {
+      this.emit('expiryWarning', { strategy, hoursLeft });
+    }
+    return true;
+  }
+
   public getPerformanceMetrics() {
     return {
       ...this.performanceMetrics,
@@ -744,65 +2111,102 @@ Remember: You're not just executing commands - you're an intelligent partner hel
   }
 }
 
-export async function createSuperAgent(): Promise<SupraSuperAgent> {
+export interface CreateSuperAgentOptions {
+  mode?: AgentMode;
+  automationMaxGas?: bigint;
+  automationGasPriceCap?: bigint;
+  enableChat?: boolean;
+  llm?: LLMProvider;
+  chain?: ChainGateway;
+  accounts?: AccountRegistry;
+  keystorePassphrase?: () => Promise<string>;
+  spendingPolicy?: SpendingPolicy;
+  defaultLifetimeHours?: number;
+  autoRenew?: boolean;
+  logger?: Console;
+}
+
+async function unlockKeystore(logger: Console, passphraseSource?: () => Promise<string>): Promise<UnlockedKey[]> {
+  const keystore = new JsonFileKeystore(process.env.SUPRA_KEYSTORE || DEFAULT_KEYSTORE_PATH);
+  const keys = await keystore.list();
+  if (keys.length === 0) return [];
+  const passphrase = process.env.SUPRA_KEYSTORE_PASSPHRASE ?? (passphraseSource ? await passphraseSource() : undefined);
+  if (!passphrase) {
+    throw new Error(`Keystore ${keystore.location} holds ${keys.length} key(s) but no passphrase was provided`);
+  }
+  const unlocked = await keystore.unlockAll(passphrase);
+  logger.log(`🔐 Unlocked ${unlocked.length} key(s) from ${keystore.location}`);
+  return unlocked;
+}
+
+function lifetimeHoursFromEnv(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === '') return undefined;
+  const hours = Number(value);
+  if (!Number.isFinite(hours) || hours <= 0) {
+    throw new Error(`SUPRA_TASK_LIFETIME_HOURS must be a positive number of hours, got "${value}"`);
+  }
+  return hours;
+}
+
+export async function createSuperAgent(options: CreateSuperAgentOptions = {}): Promise<SupraSuperAgent> {
+  const logger = options.logger ?? console;
   try {
-    const supraCient = new SupraClient(process.env.SUPRA_RPC_URL || "https://rpc-testnet.supra.com");
-    const privateKeyHex = process.env.SUPRA_PRIVATE_KEY!;
-    if (!privateKeyHex) {
-      throw new Error('SUPRA_PRIVATE_KEY environment variable is required');
-    }
-    const cleanHex = privateKeyHex.startsWith('0x') ? privateKeyHex.slice(2) : privateKeyHex;
-    if (!/^[a-fA-F0-9]{64}$/.test(cleanHex)) {
-      throw new Error('Invalid private key format. Must be 64 hex characters.');
-    }
-    const privateKeyBytes = new HexString(cleanHex).toUint8Array();
-    const userAccount = new SupraAccount(privateKeyBytes);
-    console.log('Account Address:', userAccount.address().toString());
-    try {
-      const accountInfo = await supraCient.getAccountInfo(userAccount.address());
-      console.log('Account validated! Sequence:', accountInfo.sequence_number);
-      const balance = await supraCient.getAccountCoinBalance(
-        userAccount.address(),
-        '0x1::supra_coin::SupraCoin'
-      );     
-      const balanceInSupra = Number(balance) / 1000000;
-      console.log('Account Balance:', balanceInSupra, 'SUPRA');
-         if (balanceInSupra < 1000) {
-        console.warn('⚠️ Warning: Low balance! Consider funding with more SUPRA for automation fees.');
+    const chain = options.chain ?? new SupraClientGateway(new SupraClient(process.env.SUPRA_RPC_URL || "https://rpc-testnet.supra.com"));
+    const unlocked = options.accounts ? [] : await unlockKeystore(logger, options.keystorePassphrase);
+    const accounts = options.accounts ?? loadAccountRegistryFromEnv(process.env, unlocked, message => logger.warn(message));
+    // Environment keys the keystore already provides are skipped, so only warn when one was added.
+    if (!options.accounts && accounts.size > unlocked.length) {
+      logger.warn('⚠️ Using plaintext private keys from the environment - move them into the keystore with `super-agent keys import`');
+    }
+    for (const funding of accounts.list()) {
+      logger.log(`Account ${funding.name}${funding.name === accounts.active.name ? ' (active)' : ''}:`, funding.address);
+      try {
+        const accountInfo = await chain.getAccountInfo(funding.address);
+        logger.log('Account validated! Sequence:', accountInfo.sequenceNumber.toString());
+        const balance = await chain.getCoinBalance(funding.address);
+        const balanceInSupra = Number(balance) / 1000000;
+        logger.log('Account Balance:', balanceInSupra, 'SUPRA');
+        if (balanceInSupra < 1000) {
+          logger.warn(`⚠️ Warning: Low balance on ${funding.name}! Consider funding with more SUPRA for automation fees.`);
+        }
+      } catch (error) {
+        logger.warn(`⚠️ Could not validate balance of ${funding.name}, but proceeding...`);
       }
-    } catch (error) {
-      console.warn('⚠️ Could not validate account balance, but proceeding...');
     }
     
-   const openaiClient = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY!
-    });
-   try {
-      await openaiClient.chat.completions.create({
-        model: "gpt-4",
-        messages: [{ role: "user", content: "test" }],
-        max_tokens: 5
-      });
-      console.log('OpenAI connection verified');
-    } catch (error) {
-      console.warn('⚠️ OpenAI connection issue, but proceeding...');
+    const llm = options.enableChat === false ? undefined : options.llm ?? createLLMProviderFromEnv();
+    if (llm) {
+      logger.log('LLM provider:', llm.name);
     }
 
     const config: SuperAgentConfig = {
-      supraCient,
-      openaiClient,
-      userAccount,
+      chain,
+      llm,
+      accounts,
       contractAddress: process.env.SUPRA_CONTRACT_ADDRESS || "0x1c5acf62be507c27a7788a661b546224d806246765ff2695efece60194c6df05",
       modulePrefix: "autofinal",
       retryAttempts: 3,
       timeoutMs: 30000,
-      enableAnalytics: true
+      enableAnalytics: true,
+      strategyStore: new JsonFileStrategyStore(process.env.SUPRA_STRATEGY_STORE || '.supra-agent/strategies.json'),
+      mode: options.mode ?? 'live',
+      ...(options.automationMaxGas !== undefined && { automationMaxGas: options.automationMaxGas }),
+      ...(options.automationGasPriceCap !== undefined && { automationGasPriceCap: options.automationGasPriceCap }),
+      spendingPolicy: options.spendingPolicy ?? loadSpendingPolicyFromEnv(),
+      defaultLifetimeHours: options.defaultLifetimeHours ?? lifetimeHoursFromEnv(process.env.SUPRA_TASK_LIFETIME_HOURS),
+      autoRenew: options.autoRenew ?? process.env.SUPRA_AUTO_RENEW !== 'false',
+      logger
     };
-    console.log('Super Agent initialized successfully!');
-    return new SupraSuperAgent(config);
+    const agent = new SupraSuperAgent(config);
+    await agent.waitUntilReady();
+    const policyRules = new PolicyEngine(config.spendingPolicy).describe();
+    logger.log(policyRules.length > 0 ? `Spending policy: ${policyRules.join('; ')}` : '⚠️ No spending policy configured - strategy count and spend are unbounded');
+    logger.log(`Super Agent initialized successfully! (mode: ${config.mode})`);
+    return agent;
   } catch (error: any) {
-    console.error('❌ Failed to initialize Super Agent:', error.message);
+    logger.error('❌ Failed to initialize Super Agent:', error.message);
     throw new Error(`Initialization failed: ${error.message}`);
   }
 }
+export { AgentMode, AutomationStrategy, StrategyStore, InMemoryStrategyStore, JsonFileStrategyStore };
 export default SupraSuperAgent;
\ No newline at end of file
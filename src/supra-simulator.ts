@@ -0,0 +1,720 @@
+import { createHash } from 'crypto';
+import { BCS, HexString, TransactionStatus, TxnBuilderTypes } from 'supra-l1-sdk';
+import {
+  AUTOMATION_REGISTRY,
+  DecodedEntryFunction,
+  decodeAddressArg,
+  decodeEntryFunction,
+  decodeU64Arg,
+  normalizeAddress
+} from './automation-registry';
+import {
+  AutomationRegistrationParams,
+  ChainEvent,
+  ChainGateway,
+  EntryFunctionCall,
+  SUPRA_COIN_TYPE
+} from './chain-gateway';
+import { normalizeCoinType } from './coin-metadata';
+import { TransactionConfirmation } from './types';
+import { TransactionSigner } from './signer';
+
+export interface SupraSimulatorOptions {
+  contractAddress: string;
+  modulePrefix?: string;
+  startTimeSecs?: number;
+  blockTimeSecs?: number;
+  epochIntervalSecs?: number;
+  automationFeePerEpoch?: bigint;
+  gasUnitPrice?: bigint;
+  transactionGasUsed?: bigint;
+  executionGasUsed?: bigint;
+}
+
+export interface TopUpManagerState {
+  totalTopups: bigint;
+  lastTopupTime: number;
+  threshold: bigint;
+  topupAmount: bigint;
+}
+
+export interface TransferScheduleState {
+  recipient: string;
+  paymentsMade: bigint;
+  lastPaymentTime: number;
+}
+
+export interface SimulatedTask {
+  taskIndex: number;
+  owner: string;
+  registrationTime: number;
+  expiryTime: number;
+  txHash: string;
+  state: 'pending' | 'active' | 'cancelled' | 'expired';
+  payload: Uint8Array;
+  call: DecodedEntryFunction;
+  maxGasAmount: bigint;
+  gasPriceCap: bigint;
+  feeCapForEpoch: bigint;
+}
+
+interface SerializedEnvelope {
+  kind: 'entry' | 'automation';
+  sender: string;
+  sequenceNumber: string;
+  payload: string;
+  automation?: Record<keyof AutomationRegistrationParams, string>;
+}
+
+interface SimulatedAccount {
+  sequenceNumber: bigint;
+  coins: Map<string, bigint>;
+}
+
+type EntryFunctionHandler = (sender: string, call: DecodedEntryFunction) => void;
+
+class MoveAbort extends Error {}
+
+const TASK_STATE_CODES: Record<SimulatedTask['state'], number> = {
+  pending: 0,
+  active: 1,
+  cancelled: 2,
+  expired: 1
+};
+
+function toMoveBytes(text: string): string {
+  return `0x${Buffer.from(text, 'utf8').toString('hex')}`;
+}
+
+/** The coin a generic `*_coin<CoinType>` entry function was called with. */
+function coinTypeArg(call: DecodedEntryFunction): string {
+  if (call.typeArgs.length !== 1) {
+    throw new MoveAbort('NUMBER_OF_TYPE_ARGUMENTS_MISMATCH');
+  }
+  return call.typeArgs[0];
+}
+
+/**
+ * In-memory stand-in for a Supra node: coin balances and metadata, the autofinal module's TopUpManager
+ * and transfer schedule resources and the automation registry, with registered tasks executed once per block.
+ * Serialized transactions are a JSON envelope around the BCS entry function, so they only
+ * round-trip through the simulator that built them.
+ */
+export class SupraSimulator implements ChainGateway {
+  private accounts: Map<string, SimulatedAccount> = new Map();
+  private topUpManagers: Map<string, TopUpManagerState> = new Map();
+  private transferSchedules: Map<string, TransferScheduleState> = new Map();
+  private coinInfo: Map<string, { symbol: string; decimals: number }> = new Map([[SUPRA_COIN_TYPE, { symbol: 'SUPRA', decimals: 6 }]]);
+  private tasks: Map<number, SimulatedTask> = new Map();
+  private transactions: Map<string, TransactionConfirmation & { blockHeight: number }> = new Map();
+  private events: ChainEvent[] = [];
+  private entryFunctions: Map<string, EntryFunctionHandler> = new Map();
+  private pendingEvents: Array<{ type: string; data: any }> = [];
+  private options: Required<SupraSimulatorOptions>;
+  private height = 0;
+  private nowSecs: number;
+  private nextTaskIndex = 0;
+  private txCounter = 0;
+
+  constructor(options: SupraSimulatorOptions) {
+    this.options = {
+      modulePrefix: 'autofinal',
+      startTimeSecs: Math.floor(Date.now() / 1000),
+      blockTimeSecs: 1,
+      epochIntervalSecs: 60,
+      automationFeePerEpoch: BigInt(100_000),
+      gasUnitPrice: BigInt(100),
+      transactionGasUsed: BigInt(500),
+      executionGasUsed: BigInt(300),
+      ...options,
+      contractAddress: normalizeAddress(options.contractAddress)
+    };
+    this.nowSecs = this.options.startTimeSecs;
+    this.initializeTopUpManager(this.options.contractAddress);
+
+    const module = `${this.options.contractAddress}::${this.options.modulePrefix}`;
+    this.entryFunctions.set(`${normalizeAddress('0x1')}::automation_registry::cancel_task`, (sender, call) =>
+      this.cancelTask(sender, Number(decodeU64Arg(call.args[0])))
+    );
+    const topupWithParams = (sender: string, call: DecodedEntryFunction, coinType: string) => {
+      const threshold = decodeU64Arg(call.args[1]);
+      const topupAmount = decodeU64Arg(call.args[2]);
+      if (threshold <= BigInt(0) || topupAmount <= BigInt(0)) {
+        throw new MoveAbort('E_INVALID_PARAMETERS');
+      }
+      this.executeTopup(sender, decodeAddressArg(call.args[0]), threshold, topupAmount, coinType);
+    };
+    const scheduledTransfer = (sender: string, call: DecodedEntryFunction, coinType: string) => {
+      const [scheduleId, amount, intervalSecs, startTime, endTime, maxPayments] = call.args.slice(1).map(decodeU64Arg);
+      if (amount <= BigInt(0) || intervalSecs <= BigInt(0) || (endTime !== BigInt(0) && endTime <= startTime)) {
+        throw new MoveAbort('E_INVALID_PARAMETERS');
+      }
+      this.executeScheduledTransfer(sender, decodeAddressArg(call.args[0]), scheduleId, amount, intervalSecs, startTime, endTime, maxPayments, coinType);
+    };
+    const sweepExcess = (sender: string, call: DecodedEntryFunction, coinType: string) => {
+      const minSweep = decodeU64Arg(call.args[2]);
+      if (minSweep <= BigInt(0)) {
+        throw new MoveAbort('E_INVALID_PARAMETERS');
+      }
+      this.executeSweep(sender, decodeAddressArg(call.args[0]), decodeU64Arg(call.args[1]), minSweep, coinType);
+    };
+    this.entryFunctions.set(`${module}::auto_topup_with_params`, (sender, call) => topupWithParams(sender, call, SUPRA_COIN_TYPE));
+    this.entryFunctions.set(`${module}::auto_topup_coin`, (sender, call) => topupWithParams(sender, call, coinTypeArg(call)));
+    this.entryFunctions.set(`${module}::auto_topup_with_state`, (sender, call) => {
+      const manager = this.requireTopUpManager(sender);
+      this.executeTopup(sender, decodeAddressArg(call.args[0]), manager.threshold, manager.topupAmount, SUPRA_COIN_TYPE);
+    });
+    this.entryFunctions.set(`${module}::scheduled_transfer`, (sender, call) => scheduledTransfer(sender, call, SUPRA_COIN_TYPE));
+    this.entryFunctions.set(`${module}::scheduled_transfer_coin`, (sender, call) => scheduledTransfer(sender, call, coinTypeArg(call)));
+    this.entryFunctions.set(`${module}::sweep_excess`, (sender, call) => sweepExcess(sender, call, SUPRA_COIN_TYPE));
+    this.entryFunctions.set(`${module}::sweep_excess_coin`, (sender, call) => sweepExcess(sender, call, coinTypeArg(call)));
+  }
+
+  // ---- test setup helpers ----
+
+  fund(address: string, amount: bigint, coinType: string = SUPRA_COIN_TYPE): void {
+    const account = this.ensureAccount(address);
+    const key = normalizeCoinType(coinType);
+    account.coins.set(key, (account.coins.get(key) ?? BigInt(0)) + amount);
+  }
+
+  registerCoin(address: string, coinType: string = SUPRA_COIN_TYPE): void {
+    const account = this.ensureAccount(address);
+    const key = normalizeCoinType(coinType);
+    if (!account.coins.has(key)) account.coins.set(key, BigInt(0));
+  }
+
+  /** Publishes `0x1::coin` metadata so the coin can be used by strategies. */
+  registerCoinInfo(coinType: string, symbol: string, decimals: number): void {
+    this.coinInfo.set(normalizeCoinType(coinType), { symbol, decimals });
+  }
+
+  initializeTopUpManager(address: string): void {
+    this.topUpManagers.set(normalizeAddress(address), {
+      totalTopups: BigInt(0),
+      lastTopupTime: this.nowSecs,
+      threshold: BigInt(600_000_000),
+      topupAmount: BigInt(50_000_000)
+    });
+  }
+
+  getTopUpManager(address: string): TopUpManagerState | undefined {
+    return this.topUpManagers.get(normalizeAddress(address));
+  }
+
+  getTransferSchedule(deployer: string, scheduleId: bigint | number): TransferScheduleState | undefined {
+    return this.transferSchedules.get(`${normalizeAddress(deployer)}:${scheduleId}`);
+  }
+
+  getTasks(): SimulatedTask[] {
+    return Array.from(this.tasks.values());
+  }
+
+  get blockHeight(): number {
+    return this.height;
+  }
+
+  get timestampSecs(): number {
+    return this.nowSecs;
+  }
+
+  balanceOf(address: string, coinType: string = SUPRA_COIN_TYPE): bigint {
+    return this.coinBalance(address, coinType) ?? BigInt(0);
+  }
+
+  setBalance(address: string, amount: bigint, coinType: string = SUPRA_COIN_TYPE): void {
+    this.ensureAccount(address).coins.set(normalizeCoinType(coinType), amount);
+  }
+
+  advanceBlocks(count: number = 1): void {
+    for (let i = 0; i < count; i++) {
+      this.produceBlock();
+      for (const task of this.tasks.values()) {
+        if (task.state !== 'active') continue;
+        this.executeTask(task);
+      }
+      this.flushEvents();
+    }
+  }
+
+  advanceTime(seconds: number): void {
+    this.advanceBlocks(Math.ceil(seconds / this.options.blockTimeSecs));
+  }
+
+  // ---- ChainGateway ----
+
+  async getAccountInfo(address: string): Promise<{ sequenceNumber: bigint }> {
+    const account = this.accounts.get(normalizeAddress(address));
+    if (!account) {
+      throw new Error(`Account ${address} not found`);
+    }
+    return { sequenceNumber: account.sequenceNumber };
+  }
+
+  async getCoinBalance(address: string, coinType: string = SUPRA_COIN_TYPE): Promise<bigint> {
+    const balance = this.coinBalance(address, coinType);
+    if (balance === undefined) {
+      throw new Error(`Account ${address} is not registered for ${coinType}`);
+    }
+    return balance;
+  }
+
+  async view(functionId: string, typeArgs: string[], viewArgs: Array<string | string[]>): Promise<any[]> {
+    const args = viewArgs as string[];
+    const [address, module, name] = functionId.split('::');
+    const id = `${normalizeAddress(address)}::${module}::${name}`;
+    const registry = `${normalizeAddress('0x1')}::automation_registry`;
+    const contract = `${this.options.contractAddress}::${this.options.modulePrefix}`;
+
+    switch (id) {
+      case `${registry}::get_active_task_ids`:
+        return [this.getTasks()
+          .filter(t => t.state === 'pending' || t.state === 'active')
+          .map(t => String(t.taskIndex))];
+      case `${registry}::get_task_details`: {
+        const task = this.tasks.get(Number(args[0]));
+        if (!task) throw new Error(`Task ${args[0]} not found`);
+        return [this.taskMetadata(task)];
+      }
+      case `${registry}::get_task_details_bulk`: {
+        const taskIds = viewArgs[0] as string[];
+        return [taskIds
+          .map(id => this.tasks.get(Number(id)))
+          .filter((t): t is SimulatedTask => t !== undefined)
+          .map(t => this.taskMetadata(t))];
+      }
+      case `${registry}::estimate_automation_fee`:
+        return [this.options.automationFeePerEpoch.toString()];
+      case `${normalizeAddress('0x1')}::block::get_epoch_interval_secs`:
+        return [String(this.options.epochIntervalSecs)];
+      case `${normalizeAddress('0x1')}::coin::decimals`:
+      case `${normalizeAddress('0x1')}::coin::symbol`: {
+        const info = this.coinInfo.get(normalizeCoinType(typeArgs[0] ?? ''));
+        if (!info) throw new Error(`Coin ${typeArgs[0]} is not initialized`);
+        return [name === 'decimals' ? info.decimals : info.symbol];
+      }
+      case `${contract}::will_topup_trigger_at`: {
+        const balance = this.coinBalance(args[0], SUPRA_COIN_TYPE);
+        return [balance !== undefined && balance < BigInt(args[1])];
+      }
+      case `${contract}::is_initialized`:
+        return [this.topUpManagers.has(normalizeAddress(args[0]))];
+      case `${contract}::get_topup_stats`: {
+        const manager = this.topUpManagers.get(normalizeAddress(args[0]));
+        if (!manager) return ['0', '0', '0', '0'];
+        return [
+          manager.totalTopups.toString(),
+          String(manager.lastTopupTime),
+          (manager.threshold / BigInt(1_000_000)).toString(),
+          (manager.topupAmount / BigInt(1_000_000)).toString()
+        ];
+      }
+      case `${contract}::get_schedule`: {
+        const schedule = this.getTransferSchedule(args[0], BigInt(args[1]));
+        return schedule ? [schedule.paymentsMade.toString(), String(schedule.lastPaymentTime)] : ['0', '0'];
+      }
+      default:
+        throw new Error(`View function not supported by simulator: ${functionId}`);
+    }
+  }
+
+  async buildTransaction(sender: string, sequenceNumber: bigint, call: EntryFunctionCall): Promise<Uint8Array> {
+    return this.encodeEnvelope({
+      kind: 'entry',
+      sender: normalizeAddress(sender),
+      sequenceNumber: sequenceNumber.toString(),
+      payload: this.serializeCall(call)
+    });
+  }
+
+  async buildAutomationRegistration(
+    sender: string,
+    sequenceNumber: bigint,
+    call: EntryFunctionCall,
+    automation: AutomationRegistrationParams
+  ): Promise<Uint8Array> {
+    return this.encodeEnvelope({
+      kind: 'automation',
+      sender: normalizeAddress(sender),
+      sequenceNumber: sequenceNumber.toString(),
+      payload: this.serializeCall(call),
+      automation: {
+        maxGasAmount: automation.maxGasAmount.toString(),
+        gasPriceCap: automation.gasPriceCap.toString(),
+        feeCapForEpoch: automation.feeCapForEpoch.toString(),
+        expirationTimestampSecs: automation.expirationTimestampSecs.toString()
+      }
+    });
+  }
+
+  async submitTransaction(signer: TransactionSigner, serializedTx: Uint8Array): Promise<string> {
+    let envelope: SerializedEnvelope;
+    try {
+      envelope = JSON.parse(Buffer.from(serializedTx).toString('utf8'));
+    } catch (error) {
+      throw new Error('Simulator can only submit transactions it serialized');
+    }
+    const sender = normalizeAddress(envelope.sender);
+    if (normalizeAddress(signer.address) !== sender) {
+      throw new Error(`Signer ${signer.address} does not match transaction sender ${sender}`);
+    }
+    await signer.signMessage(serializedTx);
+    const account = this.accounts.get(sender);
+    if (!account) {
+      throw new Error(`Account ${sender} not found`);
+    }
+    if (BigInt(envelope.sequenceNumber) !== account.sequenceNumber) {
+      throw new Error(`SEQUENCE_NUMBER_${BigInt(envelope.sequenceNumber) < account.sequenceNumber ? 'TOO_OLD' : 'TOO_NEW'}`);
+    }
+
+    const fee = this.options.transactionGasUsed * this.options.gasUnitPrice;
+    if (this.balanceOf(sender) < fee) {
+      throw new Error('INSUFFICIENT_BALANCE_FOR_TRANSACTION_FEE');
+    }
+
+    const txHash = `0x${createHash('sha256').update(serializedTx).update(String(++this.txCounter)).digest('hex')}`;
+    this.produceBlock();
+    this.flushEvents();
+    account.sequenceNumber++;
+    this.debit(sender, fee);
+
+    let status = TransactionStatus.Success;
+    let vmStatus = 'Executed successfully';
+    try {
+      const call = decodeEntryFunction(envelope.payload);
+      if (envelope.kind === 'automation') {
+        this.registerTask(sender, txHash, call, new HexString(envelope.payload).toUint8Array(), envelope.automation!);
+      } else {
+        this.dispatch(sender, call);
+      }
+    } catch (error: any) {
+      if (!(error instanceof MoveAbort)) throw error;
+      this.pendingEvents = [];
+      status = TransactionStatus.Failed;
+      vmStatus = `Move abort: ${error.message}`;
+    }
+
+    const events = this.pendingEvents.map(e => ({ ...e }));
+    this.flushEvents();
+    this.transactions.set(txHash, {
+      txHash,
+      status,
+      vmStatus,
+      gasUsed: this.options.transactionGasUsed,
+      fee,
+      events,
+      blockHeight: this.height
+    });
+    return txHash;
+  }
+
+  async getTransaction(_sender: string, txHash: string): Promise<TransactionConfirmation | null> {
+    const tx = this.transactions.get(txHash);
+    if (!tx) return null;
+    const { blockHeight, ...confirmation } = tx;
+    return confirmation;
+  }
+
+  async getLatestBlockHeight(): Promise<number> {
+    return this.height;
+  }
+
+  async getEvents(eventType: string, fromHeight: number, toHeight: number): Promise<ChainEvent[]> {
+    const [address, module, name] = eventType.split('::');
+    const type = `${normalizeAddress(address)}::${module}::${name}`;
+    return this.events.filter(e => e.type === type && e.blockHeight >= fromHeight && e.blockHeight <= toHeight);
+  }
+
+  // ---- chain internals ----
+
+  private taskMetadata(task: SimulatedTask): any {
+    return {
+      task_index: String(task.taskIndex),
+      owner: task.owner,
+      expiry_time: String(task.expiryTime),
+      registration_time: String(task.registrationTime),
+      tx_hash: task.txHash,
+      state: TASK_STATE_CODES[task.state],
+      payload_tx: HexString.fromUint8Array(task.payload).toString()
+    };
+  }
+
+  private produceBlock(): void {
+    const previousEpoch = Math.floor((this.nowSecs - this.options.startTimeSecs) / this.options.epochIntervalSecs);
+    this.height++;
+    this.nowSecs += this.options.blockTimeSecs;
+    const epoch = Math.floor((this.nowSecs - this.options.startTimeSecs) / this.options.epochIntervalSecs);
+
+    for (const task of this.tasks.values()) {
+      if ((task.state === 'pending' || task.state === 'active') && task.expiryTime <= this.nowSecs) {
+        task.state = 'expired';
+      }
+    }
+    if (epoch === previousEpoch) return;
+
+    for (const task of this.tasks.values()) {
+      if (task.state === 'pending') task.state = 'active';
+      if (task.state !== 'active') continue;
+      const fee = this.options.automationFeePerEpoch;
+      if (fee > task.feeCapForEpoch || this.balanceOf(task.owner) < fee) {
+        task.state = 'cancelled';
+        this.emitEvent(`${AUTOMATION_REGISTRY}::TaskCancelledInsufficientBalance`, { task_index: String(task.taskIndex) });
+        continue;
+      }
+      this.debit(task.owner, fee);
+    }
+  }
+
+  private executeTask(task: SimulatedTask): void {
+    const fee = this.options.executionGasUsed * task.gasPriceCap;
+    if (this.balanceOf(task.owner) < fee) return;
+    this.debit(task.owner, fee);
+    const eventsBefore = this.pendingEvents.length;
+    try {
+      this.dispatch(task.owner, task.call);
+    } catch (error) {
+      if (!(error instanceof MoveAbort)) throw error;
+      this.pendingEvents = this.pendingEvents.slice(0, eventsBefore);
+    }
+  }
+
+  private dispatch(sender: string, call: DecodedEntryFunction): void {
+    const id = `${normalizeAddress(call.moduleAddress)}::${call.moduleName}::${call.functionName}`;
+    const handler = this.entryFunctions.get(id);
+    if (!handler) {
+      throw new MoveAbort(`FUNCTION_RESOLUTION_FAILURE ${id}`);
+    }
+    handler(sender, call);
+  }
+
+  private registerTask(
+    owner: string,
+    txHash: string,
+    call: DecodedEntryFunction,
+    payload: Uint8Array,
+    automation: Record<keyof AutomationRegistrationParams, string>
+  ): void {
+    const expiryTime = Number(automation.expirationTimestampSecs);
+    if (expiryTime <= this.nowSecs) {
+      throw new MoveAbort('EINVALID_EXPIRY_TIME');
+    }
+    if (BigInt(automation.feeCapForEpoch) < this.options.automationFeePerEpoch) {
+      throw new MoveAbort('EINSUFFICIENT_AUTOMATION_FEE_CAP');
+    }
+    const id = `${normalizeAddress(call.moduleAddress)}::${call.moduleName}::${call.functionName}`;
+    if (!this.entryFunctions.has(id)) {
+      throw new MoveAbort(`FUNCTION_RESOLUTION_FAILURE ${id}`);
+    }
+    const task: SimulatedTask = {
+      taskIndex: this.nextTaskIndex++,
+      owner,
+      registrationTime: this.nowSecs,
+      expiryTime,
+      txHash,
+      state: 'pending',
+      payload,
+      call,
+      maxGasAmount: BigInt(automation.maxGasAmount),
+      gasPriceCap: BigInt(automation.gasPriceCap),
+      feeCapForEpoch: BigInt(automation.feeCapForEpoch)
+    };
+    this.tasks.set(task.taskIndex, task);
+    this.emitEvent(`${AUTOMATION_REGISTRY}::AutomationTaskMetaData`, {
+      task_index: String(task.taskIndex),
+      owner,
+      expiry_time: String(expiryTime)
+    });
+  }
+
+  private cancelTask(sender: string, taskIndex: number): void {
+    const task = this.tasks.get(taskIndex);
+    if (!task || task.state === 'cancelled' || task.state === 'expired') {
+      throw new MoveAbort('EAUTOMATION_TASK_NOT_FOUND');
+    }
+    if (task.owner !== sender) {
+      throw new MoveAbort('EUNAUTHORIZED_TASK_OWNER');
+    }
+    task.state = 'cancelled';
+    this.emitEvent(`${AUTOMATION_REGISTRY}::TaskCancelled`, { task_index: String(taskIndex), owner: sender });
+  }
+
+  private executeTopup(deployer: string, targetAddress: string, threshold: bigint, topupAmount: bigint, coinType: string): void {
+    const manager = this.requireTopUpManager(deployer);
+    const target = normalizeAddress(targetAddress);
+    const eventType = (name: string) => `${this.options.contractAddress}::${this.options.modulePrefix}::${name}`;
+    const executed = (action: string, targetBalance: bigint) => this.emitEvent(eventType('AutomationExecutedEvent'), {
+      deployer,
+      target,
+      coin_type: coinType,
+      action_taken: toMoveBytes(action),
+      target_balance: targetBalance.toString(),
+      execution_count: manager.totalTopups.toString(),
+      timestamp: String(this.nowSecs)
+    });
+
+    const targetBalance = this.coinBalance(target, coinType);
+    executed('automation_started', targetBalance ?? BigInt(0));
+    if (targetBalance === undefined) {
+      executed('target_not_registered', BigInt(0));
+      return;
+    }
+    if (targetBalance >= threshold) {
+      executed('no_topup_needed', targetBalance);
+      return;
+    }
+    if (this.balanceOf(deployer, coinType) < topupAmount) {
+      executed('insufficient_deployer_balance', targetBalance);
+      return;
+    }
+    this.debit(deployer, topupAmount, coinType);
+    this.fund(target, topupAmount, coinType);
+    manager.totalTopups++;
+    manager.lastTopupTime = this.nowSecs;
+    const targetBalanceAfter = this.balanceOf(target, coinType);
+    this.emitEvent(eventType('AutoTopUpEvent'), {
+      deployer,
+      target,
+      amount: topupAmount.toString(),
+      target_balance_before: targetBalance.toString(),
+      target_balance_after: targetBalanceAfter.toString(),
+      execution_count: manager.totalTopups.toString(),
+      timestamp: String(this.nowSecs)
+    });
+    executed('topup_executed', targetBalanceAfter);
+  }
+
+  private executeScheduledTransfer(
+    deployer: string,
+    recipientAddress: string,
+    scheduleId: bigint,
+    amount: bigint,
+    intervalSecs: bigint,
+    startTime: bigint,
+    endTime: bigint,
+    maxPayments: bigint,
+    coinType: string
+  ): void {
+    const now = BigInt(this.nowSecs);
+    if (now < startTime || (endTime > BigInt(0) && now > endTime)) return;
+    const recipient = normalizeAddress(recipientAddress);
+    const key = `${deployer}:${scheduleId}`;
+    const schedule = this.transferSchedules.get(key) ?? { recipient, paymentsMade: BigInt(0), lastPaymentTime: 0 };
+    this.transferSchedules.set(key, schedule);
+    if (maxPayments > BigInt(0) && schedule.paymentsMade >= maxPayments) return;
+    if (schedule.paymentsMade > BigInt(0) && now < BigInt(schedule.lastPaymentTime) + intervalSecs) return;
+
+    const emit = (action: string, paid: bigint, recipientBalance: bigint) => this.emitEvent(
+      `${this.options.contractAddress}::${this.options.modulePrefix}::ScheduledTransferEvent`,
+      {
+        deployer,
+        recipient,
+        schedule_id: scheduleId.toString(),
+        coin_type: coinType,
+        action_taken: toMoveBytes(action),
+        amount: paid.toString(),
+        payments_made: schedule.paymentsMade.toString(),
+        recipient_balance: recipientBalance.toString(),
+        timestamp: String(this.nowSecs)
+      }
+    );
+    const recipientBalance = this.coinBalance(recipient, coinType);
+    if (recipientBalance === undefined) {
+      emit('target_not_registered', BigInt(0), BigInt(0));
+      return;
+    }
+    if (this.balanceOf(deployer, coinType) < amount) {
+      emit('insufficient_deployer_balance', BigInt(0), recipientBalance);
+      return;
+    }
+    this.debit(deployer, amount, coinType);
+    this.fund(recipient, amount, coinType);
+    schedule.paymentsMade++;
+    schedule.lastPaymentTime = this.nowSecs;
+    emit('scheduled_transfer_executed', amount, this.balanceOf(recipient, coinType));
+  }
+
+  private executeSweep(source: string, treasuryAddress: string, ceiling: bigint, minSweep: bigint, coinType: string): void {
+    const sourceBalance = this.balanceOf(source, coinType);
+    if (sourceBalance <= ceiling || sourceBalance - ceiling < minSweep) return;
+    const treasury = normalizeAddress(treasuryAddress);
+    const emit = (action: string, amount: bigint) => this.emitEvent(
+      `${this.options.contractAddress}::${this.options.modulePrefix}::ExcessSweptEvent`,
+      {
+        source,
+        treasury,
+        coin_type: coinType,
+        action_taken: toMoveBytes(action),
+        amount: amount.toString(),
+        source_balance: this.balanceOf(source, coinType).toString(),
+        timestamp: String(this.nowSecs)
+      }
+    );
+    if (this.coinBalance(treasury, coinType) === undefined) {
+      emit('target_not_registered', BigInt(0));
+      return;
+    }
+    const amount = sourceBalance - ceiling;
+    this.debit(source, amount, coinType);
+    this.fund(treasury, amount, coinType);
+    emit('sweep_executed', amount);
+  }
+
+  private requireTopUpManager(address: string): TopUpManagerState {
+    const manager = this.topUpManagers.get(normalizeAddress(address));
+    if (!manager) {
+      throw new MoveAbort('E_NOT_INITIALIZED');
+    }
+    return manager;
+  }
+
+  private ensureAccount(address: string): SimulatedAccount {
+    const key = normalizeAddress(address);
+    let account = this.accounts.get(key);
+    if (!account) {
+      account = { sequenceNumber: BigInt(0), coins: new Map() };
+      this.accounts.set(key, account);
+    }
+    return account;
+  }
+
+  /** Undefined when the account is not registered for the coin. */
+  private coinBalance(address: string, coinType: string): bigint | undefined {
+    return this.accounts.get(normalizeAddress(address))?.coins.get(normalizeCoinType(coinType));
+  }
+
+  private debit(address: string, amount: bigint, coinType: string = SUPRA_COIN_TYPE): void {
+    const account = this.ensureAccount(address);
+    const key = normalizeCoinType(coinType);
+    const balance = account.coins.get(key) ?? BigInt(0);
+    if (balance < amount) {
+      throw new MoveAbort('EINSUFFICIENT_BALANCE');
+    }
+    account.coins.set(key, balance - amount);
+  }
+
+  private emitEvent(type: string, data: any): void {
+    const [address, module, name] = type.split('::');
+    this.pendingEvents.push({ type: `${normalizeAddress(address)}::${module}::${name}`, data });
+  }
+
+  private flushEvents(): void {
+    for (const event of this.pendingEvents) {
+      this.events.push({ ...event, blockHeight: this.height });
+    }
+    this.pendingEvents = [];
+  }
+
+  private serializeCall(call: EntryFunctionCall): string {
+    const entryFunction = TxnBuilderTypes.EntryFunction.natural(
+      `${normalizeAddress(call.moduleAddress)}::${call.moduleName}`,
+      call.functionName,
+      call.typeArgs,
+      call.args
+    );
+    return HexString.fromUint8Array(BCS.bcsToBytes(entryFunction)).toString();
+  }
+
+  private encodeEnvelope(envelope: SerializedEnvelope): Uint8Array {
+    return new Uint8Array(Buffer.from(JSON.stringify(envelope), 'utf8'));
+  }
+}
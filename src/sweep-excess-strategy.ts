@@ -0,0 +1,141 @@
+import { BCS, HexString } from 'supra-l1-sdk';
+import { SweepExcessParameters } from './types';
+import { SweepExcessToolArgs } from './api-types';
+import { decodeAddressArg, decodeU64Arg, isValidAddress, normalizeAddress } from './automation-registry';
+import { fromBaseUnits, toBaseUnits } from './coin-metadata';
+import { FAILURE_ACTIONS, executionMovesCoin } from './event-indexer';
+import { StrategyTypeDefinition } from './strategy-types';
+
+export const DEFAULT_MIN_SWEEP_SUPRA = 10;
+/** Action the contract reports for a sweep. */
+export const SWEEP_ACTION = 'sweep_executed';
+
+/**
+ * Moves everything above a ceiling from the funding account to a treasury. The task runs as the
+ * funding account, so that is the wallet being swept and the one whose balance is monitored.
+ */
+export const sweepExcessStrategy: StrategyTypeDefinition<SweepExcessParameters, SweepExcessToolArgs> = {
+  type: 'sweep_excess',
+  label: 'excess sweep',
+  idPrefix: 'sweep',
+  entryFunction: 'sweep_excess_coin',
+  tool: {
+    name: 'create_sweep_excess_strategy',
+    description: "Create a sweep that moves everything above a ceiling from the funding account (the hot wallet) back to a treasury address",
+    properties: {
+      treasuryAddress: {
+        type: "string",
+        description: "32-byte hex address that receives the swept coins (must start with 0x)"
+      },
+      ceilingSupra: {
+        type: "number",
+        description: "Balance, in whole units of the strategy's coin, the swept wallet keeps; everything above it is moved to the treasury"
+      },
+      minSweepSupra: {
+        type: "number",
+        description: `Smallest excess worth sweeping (default ${DEFAULT_MIN_SWEEP_SUPRA})`
+      }
+    },
+    required: ["treasuryAddress", "ceilingSupra"]
+  },
+  defaults: {
+    minSweepSupra: DEFAULT_MIN_SWEEP_SUPRA
+  },
+
+  fromToolArgs(args) {
+    return {
+      target: args.treasuryAddress,
+      ceilingSupra: args.ceilingSupra,
+      minSweepSupra: args.minSweepSupra ?? DEFAULT_MIN_SWEEP_SUPRA
+    };
+  },
+
+  validate(parameters) {
+    if (typeof parameters.target !== 'string' || !isValidAddress(parameters.target)) {
+      throw new Error(`Invalid address format: ${parameters.target}. Must be 0x followed by 64 hex characters.`);
+    }
+    if (!Number.isFinite(parameters.ceilingSupra) || parameters.ceilingSupra <= 0) {
+      throw new Error(`Invalid ceiling: ${parameters.ceilingSupra}. Must be a positive amount so the wallet keeps a working balance.`);
+    }
+    if (!Number.isFinite(parameters.minSweepSupra) || parameters.minSweepSupra <= 0) {
+      throw new Error(`Invalid minimum sweep: ${parameters.minSweepSupra}. Must be a positive amount.`);
+    }
+  },
+
+  encodeArgs(parameters, coin) {
+    return [
+      new HexString(parameters.target).toUint8Array(),
+      BCS.bcsSerializeUint64(toBaseUnits(parameters.ceilingSupra, coin)),
+      BCS.bcsSerializeUint64(toBaseUnits(parameters.minSweepSupra, coin))
+    ];
+  },
+
+  decodeTask(payload, coin) {
+    if ((payload.functionName !== 'sweep_excess_coin' && payload.functionName !== 'sweep_excess') || payload.args.length < 3) {
+      return null;
+    }
+    return {
+      target: decodeAddressArg(payload.args[0]),
+      ceilingSupra: fromBaseUnits(decodeU64Arg(payload.args[1]), coin),
+      minSweepSupra: fromBaseUnits(decodeU64Arg(payload.args[2]), coin)
+    };
+  },
+
+  matchesExecution(parameters, execution, coin) {
+    return execution.eventType === 'ExcessSweptEvent'
+      && normalizeAddress(parameters.target) === execution.target
+      && executionMovesCoin(execution, coin.coinType);
+  },
+
+  executionEvents: { [SWEEP_ACTION]: 'excessSwept' },
+  returnsFunds: true,
+
+  describe(parameters, coin) {
+    return `Excess sweep to treasury ${parameters.target} - moves everything above ${parameters.ceilingSupra} ${coin.symbol} once at least ${parameters.minSweepSupra} ${coin.symbol} can be swept`;
+  },
+
+  formatParameters(parameters, coin) {
+    return `ceiling ${parameters.ceilingSupra} ${coin.symbol}, minimum sweep ${parameters.minSweepSupra} ${coin.symbol}`;
+  },
+
+  fundingFloor(parameters) {
+    return parameters.ceilingSupra;
+  },
+
+  balanceAddress(_parameters, fundingAddress) {
+    return fundingAddress;
+  },
+
+  calculateHealth(strategy, balance, coin) {
+    const ceiling = toBaseUnits(strategy.parameters.ceilingSupra, coin);
+    const excess = balance > ceiling ? balance - ceiling : BigInt(0);
+    const willTrigger = excess >= toBaseUnits(strategy.parameters.minSweepSupra, coin);
+    const latest = [...strategy.executionHistory].reverse().find(r => r.action === SWEEP_ACTION || FAILURE_ACTIONS.includes(r.action));
+    const health = {
+      balanceRatio: Number(balance) / Number(ceiling),
+      excessSupra: fromBaseUnits(excess, coin),
+      willTrigger
+    };
+    if (willTrigger && latest && !latest.success) {
+      return {
+        ...health,
+        status: 'above_ceiling',
+        recommendation: `Last sweep failed: the treasury is not registered for ${coin.symbol} - register it so sweeps can run`
+      };
+    }
+    if (excess === BigInt(0)) {
+      return {
+        ...health,
+        status: 'healthy',
+        recommendation: `Balance is ${fromBaseUnits(ceiling - balance, coin)} ${coin.symbol} below the ceiling`
+      };
+    }
+    return {
+      ...health,
+      status: willTrigger ? 'above_ceiling' : 'healthy',
+      recommendation: willTrigger
+        ? `${fromBaseUnits(excess, coin)} ${coin.symbol} above the ceiling - it is swept to the treasury on the next execution`
+        : `${fromBaseUnits(excess, coin)} ${coin.symbol} above the ceiling, below the ${strategy.parameters.minSweepSupra} ${coin.symbol} minimum sweep`
+    };
+  }
+};
@@ -0,0 +1,88 @@
+import { TransactionStatus } from 'supra-l1-sdk';
+
+export type AgentMode = 'live' | 'dry-run';
+
+export interface TransactionConfirmation {
+  txHash: string;
+  status: TransactionStatus;
+  vmStatus?: string;
+  gasUsed: bigint;
+  fee: bigint;
+  events: any[];
+}
+
+export interface ExecutionRecord {
+  timestamp: Date;
+  action: string;
+  success: boolean;
+  amount: bigint;
+  fee: bigint;
+  blockHeight?: number;
+  txHash?: string;
+}
+
+export type ChainTaskStatus = 'pending' | 'active' | 'cancelled' | 'expired' | 'missing';
+
+/**
+ * Every strategy type acts on a target address; the remaining fields depend on the type. Amounts
+ * named `*Supra` predate coin types and are whole units of the strategy's `coinType`.
+ */
+export interface StrategyParameters {
+  target: string;
+}
+
+export interface AutoTopupParameters extends StrategyParameters {
+  thresholdSupra: number;
+  topupAmountSupra: number;
+}
+
+/** `target` is the treasury; the swept wallet is the strategy's funding account, which signs the task. */
+export interface SweepExcessParameters extends StrategyParameters {
+  ceilingSupra: number;
+  minSweepSupra: number;
+}
+
+/** `target` is the recipient; times are unix seconds and an unset end or count never stops the schedule. */
+export interface ScheduledTransferParameters extends StrategyParameters {
+  scheduleId: number;
+  amountSupra: number;
+  intervalHours: number;
+  startTimeSecs: number;
+  endTimeSecs?: number;
+  maxPayments?: number;
+}
+
+export interface AutomationStrategy<P extends StrategyParameters = StrategyParameters> {
+  id: string;
+  type: string;
+  name: string;
+  description: string;
+  parameters: P;
+  /** Coin the task moves, passed to the entry function as its type argument; SupraCoin when unset. */
+  coinType?: string;
+  fundingAccount?: string;
+  taskId?: number;
+  previousTaskIds?: number[];
+  /** Superseded tasks still running; each is cancelled once the renewed task is active. */
+  retiringTaskIds?: number[];
+  registrationTxHash?: string;
+  expiresAt?: Date;
+  renewedAt?: Date;
+  chainStatus?: ChainTaskStatus;
+  lastReconciledAt?: Date;
+  cancelTxHash?: string;
+  cancelledAt?: Date;
+  indexedThroughBlock?: number;
+  isActive: boolean;
+  createdAt: Date;
+  lastChecked?: Date;
+  executionCount: number;
+  failureCount: number;
+  successRate: number;
+  totalTransferred: bigint;
+  lastExecution?: {
+    timestamp: Date;
+    success: boolean;
+  };
+  executionHistory: ExecutionRecord[];
+}